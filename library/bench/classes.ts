@@ -0,0 +1,81 @@
+/*
+ * Compares the class based options and results with the former Proxy based
+ * ones. Run with `pnpm bench`.
+ */
+
+import * as option from "../src/option/option";
+import * as result from "../src/result/result";
+import * as proxy from "./proxy";
+
+const inc = (x: number) => x + 1;
+
+const cases: Record<string, { class: () => unknown; proxy: () => unknown }> = {
+  "create and unwrap some": {
+    class: () => option.some(1).unwrap(),
+    proxy: () => proxy.some(1).unwrap(),
+  },
+  "option chain": {
+    class: () =>
+      option
+        .some(1)
+        .map(inc)
+        .flatMap((x) => (x > 0 ? option.some(x) : option.none))
+        .filter((x) => x % 2 === 0)
+        .unwrapOr(0),
+    proxy: () =>
+      proxy
+        .some(1)
+        .map(inc)
+        .flatMap((x) => (x > 0 ? proxy.some(x) : proxy.none))
+        .filter((x) => x % 2 === 0)
+        .unwrapOr(0),
+  },
+  "result chain": {
+    class: () =>
+      result
+        .ok(1)
+        .map(inc)
+        .andThen((x) => (x > 0 ? result.ok(x) : result.err("negative")))
+        .mapErr((e) => e.length)
+        .match({ ok: inc, err: inc }),
+    proxy: () =>
+      proxy
+        .ok(1)
+        .map(inc)
+        .andThen((x) => (x > 0 ? proxy.ok(x) : proxy.err("negative")))
+        .mapErr((e) => e.length)
+        .match({ ok: inc, err: inc }),
+  },
+  "err path": {
+    class: () =>
+      result
+        .err("error")
+        .map(inc)
+        .unwrapOrElse(() => 0),
+    proxy: () =>
+      proxy
+        .err("error")
+        .map(inc)
+        .unwrapOrElse(() => 0),
+  },
+};
+
+const opsPerSecond = (fn: () => unknown, iterations = 1_000_000): number => {
+  for (let i = 0; i < iterations / 10; i++) fn();
+  const start = performance.now();
+  for (let i = 0; i < iterations; i++) fn();
+  return Math.round(iterations / ((performance.now() - start) / 1000));
+};
+
+const rows = Object.entries(cases).map(([name, fns]) => {
+  const classOps = opsPerSecond(fns.class);
+  const proxyOps = opsPerSecond(fns.proxy);
+  return {
+    name,
+    "class (ops/s)": classOps,
+    "proxy (ops/s)": proxyOps,
+    speedup: `${(classOps / proxyOps).toFixed(1)}x`,
+  };
+});
+
+console.table(rows);
@@ -0,0 +1,335 @@
+/*
+ * The Proxy based implementation of options and results from before they
+ * were turned into classes, kept only to compare their speed in the benchmarks.
+ */
+
+import type { Option, SomeVariant } from "../src/option/option";
+import type { ErrVariant, OkVariant, Result } from "../src/result/result";
+import { ShortCircuit } from "../src/shortCircuit";
+
+const optionBrand = Symbol("Option");
+const resultBrand = Symbol("Result");
+
+const noneHandler: ProxyHandler<Option<any>> = {
+  get: (target, prop) => {
+    switch (prop) {
+      case optionBrand:
+        return true;
+      case "variant":
+        return "none";
+      case "isSome":
+        return false;
+      case "isNone":
+        return true;
+      case "isSomeAnd":
+        return () => false;
+      case "expect":
+        return (message: any) => {
+          throw new Error(`Error: ${message}`);
+        };
+      case "unwrap":
+        return () => {
+          throw new Error("Error: called `.unwrap()` on none");
+        };
+      case "unwrapOr":
+        return <T>(defaultValue: T) => defaultValue;
+      case "unwrapOrElse":
+        return <T>(getDefaultValue: () => T) => getDefaultValue();
+      case "map":
+        return () => none;
+      case "mapOr":
+        return (defaultValue: any) => defaultValue;
+      case "mapOrElse":
+        return (defaultValue: any) => defaultValue();
+      case "and":
+        return () => none;
+      case "flatMap":
+        return () => none;
+      case "andThen":
+        return () => none;
+      case "filter":
+        return () => none;
+      case "okOr":
+        return (error: any) => err(error);
+      case "okOrElse":
+        return (error: any) => err(error());
+      case "or":
+        return (b: any) => b;
+      case "orElse":
+        return (f: any) => f();
+      case "tap":
+        return <F extends void | Promise<void>>(f: (_: any) => F): F => {
+          return undefined as any;
+        };
+      case "match":
+        return (pattern: any) => pattern.none();
+      case "bind":
+      case "b":
+        return () => {
+          throw new ShortCircuit("none");
+        };
+      case "toJSON":
+        return () => ({ $type: "Option", variant: "none" });
+      case "iter":
+        return function* (): Generator<any, any, any> {};
+      case Symbol.iterator:
+        return function* (): Generator<any, any, any> {
+          return yield target;
+        };
+    }
+  },
+};
+
+export const none: Option<any> = new Proxy(
+  { variant: "none" } as Option<any>,
+  noneHandler
+);
+
+const someHandler: ProxyHandler<Option<any>> = {
+  get: (target, prop) => {
+    const { value } = target as SomeVariant<any>;
+    const flatMap = <U>(f: (value: any) => Option<U>): Option<U> => f(value);
+    const unwrap = (): any => value;
+
+    switch (prop) {
+      case optionBrand:
+        return true;
+      case "variant":
+        return "some";
+      case "value":
+        return value;
+      case "isSome":
+        return true;
+      case "isSomeAnd":
+        return (predicate: any) => predicate(value);
+      case "isNone":
+        return false;
+      case "expect":
+        return unwrap;
+      case "unwrap":
+        return unwrap;
+      case "unwrapOr":
+        return unwrap;
+      case "unwrapOrElse":
+        return unwrap;
+      case "map":
+        return (f: any) => some(f(value));
+      case "mapOr":
+        return (_: any, f: any) => f(value);
+      case "mapOrElse":
+        return (defaultValue: any, f: any) => f(value);
+      case "and":
+        return (b: any) => b;
+      case "flatMap":
+        return flatMap;
+      case "andThen":
+        return flatMap;
+      case "filter":
+        return (predicate: any) => (predicate(value) ? some(value) : none);
+      case "or":
+        return () => some(value);
+      case "okOr":
+        return () => ok(value);
+      case "okOrElse":
+        return () => ok(value);
+      case "orElse":
+        return () => some(value);
+      case "tap":
+        return (f: any) => f(value);
+      case "match":
+        return (pattern: any) => pattern.some(value);
+      case "bind":
+        return unwrap;
+      case "b":
+        return unwrap;
+      case "toJSON":
+        return () => ({ $type: "Option", variant: "some", value });
+      case "iter":
+        return function* (): Generator<any, any, any> {
+          yield value;
+        };
+      case Symbol.iterator:
+        return function* (): Generator<any, any, any> {
+          return yield target;
+        };
+    }
+  },
+};
+
+export const some = <T>(value: T): Option<T> =>
+  new Proxy({ variant: "some", value } as Option<T>, someHandler);
+
+const okHandler: ProxyHandler<Result<any, any>> = {
+  get: (target, prop) => {
+    const { value } = target as OkVariant<any, any>;
+    const unwrap = (): any => value;
+    const flatMap = (f: (value: any) => Result<any, any>) => f(value);
+
+    switch (prop) {
+      case resultBrand:
+        return true;
+      case "variant":
+        return "ok";
+      case "value":
+        return value;
+      case "isOk":
+        return true;
+      case "isOkAnd":
+        return (f: any) => f(value);
+      case "isErr":
+        return false;
+      case "isErrAnd":
+        return () => false;
+      case "ok":
+        return () => some(value);
+      case "err":
+        return () => none;
+      case "expect":
+        return unwrap;
+      case "unwrap":
+        return unwrap;
+      case "expectErr":
+        return (message: any) => {
+          throw new Error(message);
+        };
+      case "unwrapErr":
+        return () => {
+          throw new Error("called `Result.unwrapErr()` on an `Ok` value");
+        };
+      case "unwrapOr":
+        return unwrap;
+      case "unwrapOrElse":
+        return unwrap;
+      case "map":
+        return (f: any) => ok(f(value));
+      case "mapOr":
+        return (_: any, f: any) => f(value);
+      case "mapOrElse":
+        return (_: any, f: any) => f(value);
+      case "mapErr":
+        return (_: any) => ok(value);
+      case "and":
+        return (b: any) => b;
+      case "or":
+        return () => ok(value);
+      case "orElse":
+        return () => ok(value);
+      case "andThen":
+        return flatMap;
+      case "flatMap":
+        return flatMap;
+      case "bind":
+        return () => value;
+      case "b":
+        return () => value;
+      case "match":
+        return (pattern: any) => pattern.ok(value);
+      case "tap":
+        return (f: any) => f(value);
+      case "toJSON":
+        return () => ({ $type: "Result", variant: "ok", value });
+      case "iter":
+        return function* (): Generator<any, any, any> {
+          yield value;
+        };
+      case Symbol.iterator:
+        return function* (): Generator<any, any, any> {
+          return yield target;
+        };
+    }
+  },
+};
+
+export const ok = <T>(value: T): Result<T, any> =>
+  new Proxy(
+    {
+      variant: "ok",
+      value,
+    } as Result<T, any>,
+    okHandler
+  );
+
+const errHandler: ProxyHandler<Result<any, any>> = {
+  get: (target, prop) => {
+    const { error } = target as ErrVariant<any, any>;
+    const unwrap = () => {
+      throw new Error("called `Result.unwrap()` on an `Err` value: " + error);
+    };
+
+    const bind = () => {
+      throw new ShortCircuit("err", error);
+    };
+
+    switch (prop) {
+      case resultBrand:
+        return true;
+      case "variant":
+        return "err";
+      case "error":
+        return error;
+      case "isOk":
+        return false;
+      case "isOkAnd":
+        return () => false;
+      case "isErr":
+        return true;
+      case "isErrAnd":
+        return (p: any) => p(error);
+      case "ok":
+        return () => none;
+      case "err":
+        return () => some(error);
+      case "expect":
+        return unwrap;
+      case "unwrap":
+        return unwrap;
+      case "expectErr":
+        return () => error;
+      case "unwrapErr":
+        return () => error;
+      case "unwrapOr":
+        return (defaultValue: any) => defaultValue;
+      case "unwrapOrElse":
+        return (defaultValueFun: any) => defaultValueFun();
+      case "map":
+        return () => err(error);
+      case "mapOr":
+        return (defaultValue: any, _: any) => defaultValue;
+      case "mapOrElse":
+        return (defaultValueFn: any, f: any) => defaultValueFn();
+      case "mapErr":
+        return (f: any) => err(f(error));
+      case "and":
+        return () => err(error);
+      case "or":
+        return (res: any) => res;
+      case "orElse":
+        return (f: any) => f();
+      case "andThen":
+        return () => err(error);
+      case "flatMap":
+        return () => err(error);
+      case "bind":
+        return bind;
+      case "b":
+        return bind;
+      case "match":
+        return (pattern: any) => pattern.err(error);
+      case "tap":
+        return <F extends void | Promise<void>>(f: (_: any) => F): F => {
+          return undefined as any;
+        };
+      case "toJSON":
+        return () => ({ $type: "Result", variant: "err", error });
+      case "iter":
+        return function* (): Generator<any, any, any> {};
+      case Symbol.iterator:
+        return function* (): Generator<any, any, any> {
+          return yield target;
+        };
+    }
+  },
+};
+
+export const err = <E>(error: E): Result<any, E> =>
+  new Proxy({ variant: "err", error } as Result<any, E>, errHandler);
@@ -0,0 +1,70 @@
+/*
+ * Cancellation of the async do blocks and combinators with an `AbortSignal`.
+ */
+
+/**
+ * The signal passed to an async do block or combinator was aborted.
+ * `cause` is the reason of the signal.
+ */
+export class AbortError extends Error {
+  readonly name = "AbortError";
+  readonly _tag = "AbortError";
+
+  constructor(readonly cause: unknown) {
+    super(cause instanceof Error ? cause.message : "The operation was aborted");
+  }
+}
+
+export interface AbortOptions {
+  /**
+   * Aborts the block. It resolves right away and the signal is passed
+   * to the block, so that it can be forwarded to `fetch` and other async helpers.
+   */
+  signal?: AbortSignal;
+}
+
+// passed to the blocks that can't be aborted, so that they always get a signal
+export const neverAborted = (): AbortSignal => new AbortController().signal;
+
+/**
+ * Resolves or rejects like the promise, or rejects with the reason
+ * of the signal as soon as it's aborted.
+ */
+export const raceAbort = <T>(
+  promise: PromiseLike<T>,
+  signal: AbortSignal
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    Promise.resolve(promise)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+
+/**
+ * Resolves or rejects like the promise, or resolves to `onAbort()`
+ * as soon as the signal is aborted.
+ */
+export const abortable = <T>(
+  promise: PromiseLike<T>,
+  signal: AbortSignal,
+  onAbort: () => T
+): Promise<T> =>
+  raceAbort(promise, signal).catch((e) => {
+    if (isAbort(e, signal)) {
+      return onAbort();
+    }
+    throw e;
+  });
+
+/**
+ * Returns `true` if the exception comes from the signal being aborted: either
+ * its reason, or an `AbortError` thrown by a helper that the signal was forwarded to.
+ */
+export const isAbort = (e: unknown, signal: AbortSignal): boolean =>
+  signal.aborted &&
+  (e === signal.reason || (e instanceof Error && e.name === "AbortError"));
@@ -0,0 +1,25 @@
+/*
+ * Options, results, short circuits and context errors are recognized by
+ * a brand rather than by `instanceof`. Every entry point of a CommonJS build,
+ * and every copy of the package in `node_modules`, has its own classes, but
+ * `Symbol.for` returns the same symbol to all of them.
+ */
+
+export const optionBrand: unique symbol = Symbol.for("this-is-ok/Option");
+export const resultBrand: unique symbol = Symbol.for("this-is-ok/Result");
+export const shortCircuitBrand: unique symbol = Symbol.for(
+  "this-is-ok/ShortCircuit"
+);
+export const contextErrorBrand: unique symbol = Symbol.for(
+  "this-is-ok/ContextError"
+);
+
+export const hasBrand = (
+  value: unknown,
+  brand:
+    | typeof optionBrand
+    | typeof resultBrand
+    | typeof shortCircuitBrand
+    | typeof contextErrorBrand
+): boolean =>
+  typeof value === "object" && value !== null && (value as any)[brand] === true;
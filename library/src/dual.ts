@@ -0,0 +1,22 @@
+/**
+ * Turns a data-first function into one that can also be called data-last.
+ * When called with fewer than `arity` arguments, it returns a function
+ * that waits for the data (`self`) argument.
+ *
+ * @example
+ * ```ts
+ * const map = dual(2, (self: Option<number>, f: (x: number) => number) => self.map(f));
+ * map(some(1), (x) => x + 1); // some(2)
+ * map((x: number) => x + 1)(some(1)); // some(2)
+ * ```
+ */
+export const dual = <F>(
+  arity: number,
+  body: (self: any, ...args: any[]) => unknown
+): F =>
+  function (...args: any[]) {
+    if (args.length >= arity) {
+      return body(...(args as [any, ...any[]]));
+    }
+    return (self: any) => body(self, ...args);
+  } as F;
@@ -0,0 +1,112 @@
+import { hasBrand, optionBrand, resultBrand } from "./brand";
+
+/**
+ * Structural equality used by `equals` when no comparator is given.
+ * Primitives are compared with `Object.is`, arrays, plain objects, maps, sets,
+ * dates and errors by their contents. Options and results are compared by
+ * their variant and inner value, since they expose those as own keys.
+ * Set members and map keys are matched structurally as well, and cyclic
+ * values are equal if they have the same shape.
+ */
+export const deepEqual = (a: unknown, b: unknown): boolean =>
+  deepEqualWith(a, b, new Map());
+
+// `comparing` holds the pairs being compared further up, a pair that comes up
+// again is part of a cycle and is assumed to be equal, like in `util.isDeepStrictEqual`.
+const deepEqualWith = (
+  a: unknown,
+  b: unknown,
+  comparing: Map<object, Set<object>>
+): boolean => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    !sameKind(a, b)
+  ) {
+    return false;
+  }
+
+  const pairs = comparing.get(a) ?? new Set<object>();
+  if (pairs.has(b)) {
+    return true;
+  }
+  comparing.set(a, pairs.add(b));
+  try {
+    return equalObjects(a, b, (x, y) => deepEqualWith(x, y, comparing));
+  } finally {
+    pairs.delete(b);
+  }
+};
+
+// Options and results created by another entry point or copy of the package
+// have other prototypes, so they are matched by their brand instead.
+const sameKind = (a: object, b: object): boolean =>
+  Object.getPrototypeOf(a) === Object.getPrototypeOf(b) ||
+  (hasBrand(a, optionBrand) && hasBrand(b, optionBrand)) ||
+  (hasBrand(a, resultBrand) && hasBrand(b, resultBrand));
+
+const equalObjects = (
+  a: object,
+  b: object,
+  equal: (a: unknown, b: unknown) => boolean
+): boolean => {
+  if (
+    a instanceof Error &&
+    (a.name !== (b as Error).name || a.message !== (b as Error).message)
+  ) {
+    return false;
+  }
+  if (a instanceof Date) {
+    return a.getTime() === (b as Date).getTime();
+  }
+  if (a instanceof RegExp) {
+    return a.toString() === (b as RegExp).toString();
+  }
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>;
+    if (a.size !== other.size) {
+      return false;
+    }
+    const unmatched = Array.from(other.keys()).filter((key) => !a.has(key));
+    return Array.from(a).every(([key, value]) => {
+      if (other.has(key)) {
+        return equal(value, other.get(key));
+      }
+      const index = unmatched.findIndex(
+        (candidate) =>
+          equal(key, candidate) && equal(value, other.get(candidate))
+      );
+      return index !== -1 && unmatched.splice(index, 1).length === 1;
+    });
+  }
+  if (a instanceof Set) {
+    const other = b as Set<unknown>;
+    if (a.size !== other.size) {
+      return false;
+    }
+    const unmatched = Array.from(other).filter((value) => !a.has(value));
+    return Array.from(a).every((value) => {
+      if (other.has(value)) {
+        return true;
+      }
+      const index = unmatched.findIndex((candidate) => equal(value, candidate));
+      return index !== -1 && unmatched.splice(index, 1).length === 1;
+    });
+  }
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(b, key) &&
+        equal((a as any)[key], (b as any)[key])
+    )
+  );
+};
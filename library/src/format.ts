@@ -0,0 +1,131 @@
+import { hasBrand, optionBrand, resultBrand } from "./brand";
+
+/**
+ * Formats a value for `toString` and the messages of `unwrap` and friends,
+ * close to what `util.inspect` prints but without depending on node.
+ * Options and results render as `Some(42)` or `Err(NotFound)`, errors by their
+ * name and message, strings are quoted and arrays and plain objects are
+ * rendered recursively, so nested values stay readable.
+ */
+export const display = (value: unknown): string =>
+  displayValue(value, new Set());
+
+const displayValue = (value: unknown, seen: Set<object>): string => {
+  if (typeof value === "string") {
+    return JSON.stringify(value);
+  }
+  if (typeof value === "function") {
+    return `[Function ${value.name || "(anonymous)"}]`;
+  }
+  if (typeof value !== "object" || value === null) {
+    return String(value);
+  }
+  if (seen.has(value)) {
+    return "[Circular]";
+  }
+
+  if (value instanceof Error) {
+    return value.message && value.message !== value.name
+      ? `${value.name}: ${value.message}`
+      : value.name;
+  }
+  seen.add(value);
+  try {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => displayValue(item, seen)).join(", ")}]`;
+    }
+    if (value instanceof Map) {
+      const entries = Array.from(value).map(
+        ([key, item]) =>
+          `${displayValue(key, seen)} => ${displayValue(item, seen)}`
+      );
+      return `Map ${braces(entries)}`;
+    }
+    if (value instanceof Set) {
+      const items = Array.from(value).map((item) => displayValue(item, seen));
+      return `Set ${braces(items)}`;
+    }
+    // rendered here rather than by their `toString`, so that a cycle
+    // through an option or a result is still detected
+    if (hasBrand(value, optionBrand) || hasBrand(value, resultBrand)) {
+      return displayVariant(value as Variant, seen);
+    }
+    const prototype = Object.getPrototypeOf(value);
+    const isPlain = prototype === Object.prototype || prototype === null;
+    // dates, urls and classes with their own `toString`
+    if (!isPlain && value.toString !== Object.prototype.toString) {
+      return String(value);
+    }
+    const entries = Object.entries(value).map(
+      ([key, item]) => `${key}: ${displayValue(item, seen)}`
+    );
+    return isPlain
+      ? braces(entries)
+      : `${prototype.constructor.name} ${braces(entries)}`;
+  } finally {
+    seen.delete(value);
+  }
+};
+
+type Variant =
+  | { variant: "some" | "ok"; value: unknown }
+  | { variant: "err"; error: unknown }
+  | { variant: "none" };
+
+const displayVariant = (value: Variant, seen: Set<object>): string => {
+  switch (value.variant) {
+    case "none":
+      return "None";
+    case "some":
+      return `Some(${displayValue(value.value, seen)})`;
+    case "ok":
+      return `Ok(${displayValue(value.value, seen)})`;
+    case "err":
+      return `Err(${displayValue(value.error, seen)})`;
+  }
+};
+
+const braces = (items: string[]) =>
+  items.length === 0 ? "{}" : `{ ${items.join(", ")} }`;
+
+/**
+ * The key of the custom rendering of node's `util.inspect`. It's a global
+ * symbol, so it can be used without importing `util`.
+ */
+export const inspectCustom: unique symbol = Symbol.for(
+  "nodejs.util.inspect.custom"
+);
+
+export type InspectOptions = { depth?: number | null };
+export type Inspect = (value: unknown, options: InspectOptions) => string;
+
+// the options and results being rendered by `util.inspect`, which is synchronous
+const inspecting = new Set<object>();
+
+/**
+ * Renders `Tag(value)` for `util.inspect`. The value is rendered by node
+ * itself at the same depth, so colors and nesting are kept and the
+ * variant doesn't count as a level. Node can't see cycles through the
+ * variant, so they are tracked here and rendered as `[Circular]`.
+ */
+export const inspectVariant = (
+  variant: object,
+  tag: string,
+  value: unknown,
+  depth: number,
+  options: InspectOptions,
+  inspect?: Inspect
+): string => {
+  if (!inspect) {
+    return `${tag}(${display(value)})`;
+  }
+  if (inspecting.has(variant)) {
+    return "[Circular]";
+  }
+  inspecting.add(variant);
+  try {
+    return `${tag}(${inspect(value, { ...options, depth })})`;
+  } finally {
+    inspecting.delete(variant);
+  }
+};
@@ -0,0 +1,16 @@
+/*
+ * Promises passed as arguments to the async combinators, like the `b` of
+ * `and`, are only awaited by some of the variants. Their rejections are
+ * marked as handled up front, so that skipping them doesn't end in an
+ * unhandled rejection, while the steps that await them still get it.
+ */
+
+export const handled = <T>(value: T | PromiseLike<T>): T | PromiseLike<T> => {
+  if (isPromiseLike(value)) {
+    value.then(undefined, () => {});
+  }
+  return value;
+};
+
+const isPromiseLike = <T>(value: T | PromiseLike<T>): value is PromiseLike<T> =>
+  typeof (value as PromiseLike<T> | null)?.then === "function";
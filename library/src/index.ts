@@ -1,2 +1,5 @@
 export * as Option from "./option";
 export * as Result from "./result";
+export * from "./pipe";
+export { matchWith, P } from "./match";
+export { reviver } from "./json";
@@ -0,0 +1,86 @@
+/*
+ * Shared implementation of the lazy iterable helpers, e.g. `flattenOptions`
+ * and `oks`. They work on both sync and async iterables and return an
+ * iterator of the same kind.
+ */
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as any)[Symbol.asyncIterator] === "function";
+
+/**
+ * Lazily yields the values selected from the items. An item is skipped when
+ * `select` returns an empty iterator, e.g. of `none.iter()`.
+ */
+export function lazyFlatMap<A, B>(
+  items: Iterable<A> | AsyncIterable<A>,
+  select: (item: A) => Iterable<B>
+): IterableIterator<B> | AsyncIterableIterator<B> {
+  return isAsyncIterable(items)
+    ? lazyFlatMapAsync(items, select)
+    : lazyFlatMapSync(items, select);
+}
+
+function* lazyFlatMapSync<A, B>(
+  items: Iterable<A>,
+  select: (item: A) => Iterable<B>
+): IterableIterator<B> {
+  for (const item of items) {
+    yield* select(item);
+  }
+}
+
+// written by hand, since async generators can't be compiled to the es2016 target of the build
+function lazyFlatMapAsync<A, B>(
+  items: AsyncIterable<A>,
+  select: (item: A) => Iterable<B>
+): AsyncIterableIterator<B> {
+  const source = items[Symbol.asyncIterator]();
+  let current: Iterator<B> = [][Symbol.iterator]();
+  const iterator: AsyncIterableIterator<B> = {
+    async next(): Promise<IteratorResult<B>> {
+      for (;;) {
+        const selected = current.next();
+        if (!selected.done) {
+          return selected;
+        }
+        const item = await source.next();
+        if (item.done) {
+          return { done: true, value: undefined };
+        }
+        current = select(item.value)[Symbol.iterator]();
+      }
+    },
+    async return(value?: unknown): Promise<IteratorResult<B>> {
+      await source.return?.();
+      return { done: true, value };
+    },
+    [Symbol.asyncIterator]: () => iterator,
+  };
+  return iterator;
+}
+
+/**
+ * Lazily yields the values selected from the item the promise resolves to,
+ * e.g. the value of an async option.
+ */
+export const lazySelectAsync = <A, B>(
+  promise: PromiseLike<A>,
+  select: (item: A) => Iterable<B>
+): AsyncIterableIterator<B> => lazyFlatMapAsync(once(promise), select);
+
+const once = <A>(promise: PromiseLike<A>): AsyncIterable<A> => ({
+  [Symbol.asyncIterator]() {
+    let done = false;
+    return {
+      async next(): Promise<IteratorResult<A>> {
+        if (done) {
+          return { done: true, value: undefined };
+        }
+        done = true;
+        return { done: false, value: await promise };
+      },
+    };
+  },
+});
@@ -0,0 +1,195 @@
+import { describe, expect, expectTypeOf, test } from "vitest";
+import { optionFromJSON, resultFromJSON, reviver } from "./json";
+import { Option, none, some } from "./option/option";
+import { Result, err, ok } from "./result/result";
+
+describe("toJSON", () => {
+  test("option", () => {
+    expect(JSON.stringify(some(42))).toBe(
+      '{"$type":"Option","variant":"some","value":42}'
+    );
+    expect(JSON.stringify(none)).toBe('{"$type":"Option","variant":"none"}');
+  });
+
+  test("result", () => {
+    expect(JSON.stringify(ok(42))).toBe(
+      '{"$type":"Result","variant":"ok","value":42}'
+    );
+    expect(JSON.stringify(err("oops"))).toBe(
+      '{"$type":"Result","variant":"err","error":"oops"}'
+    );
+  });
+
+  test("errors", () => {
+    class NotFound extends Error {
+      readonly name = "NotFound";
+      readonly _tag = "NotFound";
+      constructor(readonly id: string) {
+        super(`no user ${id}`, { cause: new Error("missing row") });
+      }
+    }
+
+    expect(JSON.parse(JSON.stringify(err(new NotFound("1"))))).toEqual({
+      $type: "Result",
+      variant: "err",
+      error: {
+        name: "NotFound",
+        _tag: "NotFound",
+        id: "1",
+        message: "no user 1",
+        cause: { name: "Error", message: "missing row" },
+      },
+    });
+  });
+
+  test("errors nested in the error", () => {
+    const error = {
+      code: 1,
+      errors: [new Error("a"), { inner: new Error("b") }],
+    };
+
+    expect(JSON.parse(JSON.stringify(err(error))).error).toEqual({
+      code: 1,
+      errors: [
+        { name: "Error", message: "a" },
+        { inner: { name: "Error", message: "b" } },
+      ],
+    });
+  });
+
+  test("cyclic errors", () => {
+    const error = new Error("loop");
+    Object.assign(error, { cause: error });
+    const shared = new Error("shared");
+
+    expect(JSON.parse(JSON.stringify(err(error))).error).toEqual({
+      name: "Error",
+      message: "loop",
+      cause: "[Circular]",
+    });
+    expect(JSON.parse(JSON.stringify(err([shared, shared]))).error).toEqual([
+      { name: "Error", message: "shared" },
+      { name: "Error", message: "shared" },
+    ]);
+  });
+
+  test("nested", () => {
+    expect(JSON.parse(JSON.stringify({ a: ok(some([none])) }))).toEqual({
+      a: {
+        $type: "Result",
+        variant: "ok",
+        value: {
+          $type: "Option",
+          variant: "some",
+          value: [{ $type: "Option", variant: "none" }],
+        },
+      },
+    });
+  });
+});
+
+describe("reviver", () => {
+  test("round trip", () => {
+    const parsed = JSON.parse(
+      JSON.stringify({ a: some(1), b: none, c: ok("x"), d: err({ code: 1 }) }),
+      reviver
+    );
+
+    expect(parsed.a.unwrap()).toBe(1);
+    expect(parsed.b.isNone).toBe(true);
+    expect(parsed.c.unwrap()).toBe("x");
+    expect(parsed.d.unwrapErr()).toEqual({ code: 1 });
+  });
+
+  test("nested round trip", () => {
+    const value: Result<Option<number>, string> = ok(some(42));
+    const parsed: Result<Option<number>, string> = JSON.parse(
+      JSON.stringify(value),
+      reviver
+    );
+
+    expect(parsed.unwrap().unwrap()).toBe(42);
+  });
+
+  test("leaves other values untouched", () => {
+    const value = { variant: "some", value: 1, $type: "Something" };
+    expect(JSON.parse(JSON.stringify(value), reviver)).toEqual(value);
+  });
+});
+
+describe("fromJSON", () => {
+  test("option", () => {
+    const opt = optionFromJSON<number>(
+      JSON.parse('{"$type":"Option","variant":"some","value":42}')
+    );
+
+    expectTypeOf(opt).toEqualTypeOf<Result<Option<number>, TypeError>>();
+    expect(opt.unwrap().unwrap()).toBe(42);
+    expect(
+      optionFromJSON({ $type: "Option", variant: "none" }).unwrap().isNone
+    ).toBe(true);
+  });
+
+  test("result", () => {
+    const res = resultFromJSON<number, string>({
+      $type: "Result",
+      variant: "err",
+      error: "oops",
+    });
+
+    expectTypeOf(res).toEqualTypeOf<
+      Result<Result<number, string>, TypeError>
+    >();
+    expect(res.unwrap().unwrapErr()).toBe("oops");
+  });
+
+  test("rebuilds nested values", () => {
+    const json = JSON.parse(
+      JSON.stringify(ok({ items: [some(1), none], user: ok(some("John")) }))
+    );
+    const res = resultFromJSON<{
+      items: Option<number>[];
+      user: Result<Option<string>, string>;
+    }>(json).unwrap();
+
+    const { items, user } = res.unwrap();
+    expect(items[0].unwrap()).toBe(1);
+    expect(items[1].isNone).toBe(true);
+    expect(user.unwrap().unwrap()).toBe("John");
+  });
+
+  test("does not let a __proto__ key replace the prototype", () => {
+    const json = JSON.parse(
+      '{"$type":"Option","variant":"some","value":{"__proto__":{"polluted":true}}}'
+    );
+    const value = optionFromJSON<any>(json).unwrap().unwrap();
+
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+    expect(value.polluted).toBeUndefined();
+    expect(Object.keys(value)).toEqual(["__proto__"]);
+  });
+
+  test("requires the value of some and the error of err", () => {
+    expect(optionFromJSON({ $type: "Option", variant: "some" }).isErr).toBe(
+      true
+    );
+    expect(resultFromJSON({ $type: "Result", variant: "err" }).isErr).toBe(
+      true
+    );
+    // the value of `ok(undefined)` is dropped by `JSON.stringify`
+    const res = resultFromJSON(JSON.parse(JSON.stringify(ok(undefined))));
+    expect(res.unwrap().unwrap()).toBeUndefined();
+  });
+
+  test("rejects invalid input", () => {
+    expect(
+      optionFromJSON({ variant: "some", value: 1 }).unwrapErr()
+    ).toBeInstanceOf(TypeError);
+    expect(optionFromJSON({ $type: "Option", variant: "ok" }).isErr).toBe(true);
+    expect(optionFromJSON(JSON.parse(JSON.stringify(ok(1)))).isErr).toBe(true);
+    expect(resultFromJSON(null).isErr).toBe(true);
+    expect(resultFromJSON("text").unwrapErr().message).toBe(
+      'Expected a serialized Result, got "text"'
+    );
+  });
+});
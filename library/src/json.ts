@@ -0,0 +1,116 @@
+import { Option, OptionJSON, none, some } from "./option/option";
+import { Result, ResultJSON, err, ok } from "./result/result";
+
+/*
+ * Wire format of options and results (see `OptionJSON` and `ResultJSON`):
+ *
+ *   { "$type": "Option", "variant": "some", "value": <value> }
+ *   { "$type": "Option", "variant": "none" }
+ *   { "$type": "Result", "variant": "ok", "value": <value> }
+ *   { "$type": "Result", "variant": "err", "error": <error> }
+ *
+ * Values and errors can contain other options and results. `value` can only
+ * be left out by an `Ok`, since `JSON.stringify` drops the `undefined` value
+ * of a `Result<void, E>`. `Error`s are written as plain objects, see `ResultJSON`.
+ */
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isOptionJSON = (value: unknown): value is OptionJSON =>
+  isRecord(value) &&
+  value.$type === "Option" &&
+  ((value.variant === "some" && "value" in value) || value.variant === "none");
+
+const isResultJSON = (value: unknown): value is ResultJSON =>
+  isRecord(value) &&
+  value.$type === "Result" &&
+  (value.variant === "ok" || (value.variant === "err" && "error" in value));
+
+const describe = (value: unknown): string => {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch (_) {
+    return String(value);
+  }
+};
+
+/**
+ * A reviver for `JSON.parse` that turns serialized options and results,
+ * on any level of nesting, back into live instances.
+ *
+ * @example
+ * ```ts
+ * const text = JSON.stringify({ user: ok(some("John")) });
+ * const { user } = JSON.parse(text, reviver);
+ * expect(user.unwrap().unwrap()).toBe("John");
+ * ```
+ */
+export const reviver = (_key: string, value: any): any => {
+  if (isOptionJSON(value)) {
+    return value.variant === "some" ? some(value.value) : none;
+  }
+  if (isResultJSON(value)) {
+    return value.variant === "ok" ? ok(value.value) : err(value.error);
+  }
+  return value;
+};
+
+// Walks an already parsed value bottom-up, like `JSON.parse` does with a reviver.
+// Keys are defined rather than assigned, so that a parsed `"__proto__"` key
+// stays a plain property instead of replacing the prototype.
+const revive = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(revive);
+  }
+  if (isRecord(value)) {
+    const revived: Record<string, unknown> = {};
+    for (const key of Object.keys(value)) {
+      Object.defineProperty(revived, key, {
+        value: revive(value[key]),
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+    }
+    return reviver("", revived);
+  }
+  return value;
+};
+
+/**
+ * Validates an already parsed JSON value and rebuilds an option from it.
+ * Nested options and results are rebuilt as well.
+ * Exported as `fromJSON` from the option module.
+ *
+ * @example
+ * ```ts
+ * const opt = Option.fromJSON<number>(JSON.parse('{"$type":"Option","variant":"some","value":42}'));
+ * expect(opt.unwrap().unwrap()).toBe(42);
+ * expect(Option.fromJSON({ variant: "some" }).isErr).toBe(true);
+ * ```
+ */
+export const optionFromJSON = <T = unknown>(
+  json: unknown
+): Result<Option<T>, TypeError> =>
+  isOptionJSON(json)
+    ? ok(revive(json) as Option<T>)
+    : err(new TypeError(`Expected a serialized Option, got ${describe(json)}`));
+
+/**
+ * Validates an already parsed JSON value and rebuilds a result from it.
+ * Nested options and results are rebuilt as well.
+ * Exported as `fromJSON` from the result module.
+ *
+ * @example
+ * ```ts
+ * const res = Result.fromJSON<number, string>(JSON.parse('{"$type":"Result","variant":"err","error":"oops"}'));
+ * expect(res.unwrap().unwrapErr()).toBe("oops");
+ * ```
+ */
+export const resultFromJSON = <T = unknown, E = unknown>(
+  json: unknown
+): Result<Result<T, E>, TypeError> =>
+  isResultJSON(json)
+    ? ok(revive(json) as Result<T, E>)
+    : err(new TypeError(`Expected a serialized Result, got ${describe(json)}`));
@@ -0,0 +1,136 @@
+import { describe, expect, expectTypeOf, test, vitest } from "vitest";
+import { P, matchWith } from "./match";
+import { Option, none, some } from "./option/option";
+import { Result, err, ok } from "./result/result";
+
+describe("matchWith", () => {
+  const size = (value: Option<number>) =>
+    matchWith(value)
+      .with(P.some(0), () => "zero")
+      .with(
+        P.some((x) => x > 10),
+        (x) => `big ${x}`
+      )
+      .with(P.some(), (x) => `small ${x}`)
+      .with(P.none, () => "nothing")
+      .exhaustive();
+
+  test("options", () => {
+    expectTypeOf(size).returns.toEqualTypeOf<string>();
+    expect(size(some(0))).toBe("zero");
+    expect(size(some(42))).toBe("big 42");
+    expect(size(some(1))).toBe("small 1");
+    expect(size(none)).toBe("nothing");
+  });
+
+  test("results", () => {
+    const res = matchWith(err("oops") as Result<number, string>)
+      .with(P.ok(), (value) => value)
+      .with(P.err("timeout"), () => -1)
+      .with(P.err(), (error) => error.length)
+      .exhaustive();
+
+    expectTypeOf(res).toEqualTypeOf<number>();
+    expect(res).toBe(4);
+  });
+
+  test("nested patterns", () => {
+    type User = { name: string; admin: boolean };
+    const label = (found: Result<Option<User>, Error>) =>
+      matchWith(found)
+        .with(
+          P.ok(P.some((user) => user.admin)),
+          (user) => `admin ${user.name}`
+        )
+        .with(P.ok(P.some()), (user) => user.name)
+        .with(P.ok(P.none), () => "guest")
+        .with(P.err(), (error) => error.message)
+        .exhaustive();
+
+    expect(label(ok(some({ name: "John", admin: true })))).toBe("admin John");
+    expect(label(ok(some({ name: "Jane", admin: false })))).toBe("Jane");
+    expect(label(ok(none))).toBe("guest");
+    expect(label(err(new Error("offline")))).toBe("offline");
+  });
+
+  test("guards narrow the bound value", () => {
+    const res = matchWith(some("a") as Option<string | number>)
+      .with(
+        P.some((x): x is string => typeof x === "string"),
+        (x) => x.toUpperCase()
+      )
+      .with(P._, () => "other")
+      .exhaustive();
+
+    expect(res).toBe("A");
+  });
+
+  test("literals are compared structurally", () => {
+    const res = matchWith(some({ x: 1 }))
+      .with(P.some({ x: 1 }), () => true)
+      .otherwise(() => false);
+
+    expect(res).toBe(true);
+  });
+
+  test("the wildcard matches anything", () => {
+    const value = ok(some(1)) as Result<Option<number>, string>;
+    const res = matchWith(value)
+      .with(P.ok(P.some(P._)), (x) => x + 1)
+      .with(P._, (value) => value.isErr)
+      .exhaustive();
+
+    expectTypeOf(res).toEqualTypeOf<number | boolean>();
+    expect(res).toBe(2);
+  });
+
+  test("only the first matching case is called", () => {
+    const first = vitest.fn(() => 1);
+    const second = vitest.fn(() => 2);
+
+    expect(
+      matchWith(some(1)).with(P.some(), first).with(P._, second).exhaustive()
+    ).toBe(1);
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  test("otherwise", () => {
+    const value = none as Option<number>;
+
+    expect(
+      matchWith(value)
+        .with(P.some(), (x) => x)
+        .otherwise(() => 0)
+    ).toBe(0);
+  });
+
+  test("cases must be exhaustive", () => {
+    const value = ok(none) as Result<Option<number>, string>;
+
+    const missingNone = matchWith(value)
+      .with(P.ok(P.some()), () => 1)
+      .with(P.err(), () => 2);
+    // @ts-expect-error Ok(None) isn't covered
+    () => missingNone.exhaustive();
+
+    const guarded = matchWith(value)
+      .with(
+        P.ok((x) => x.isSome),
+        () => 1
+      )
+      .with(P.err(), () => 2);
+    // @ts-expect-error cases with guards don't count
+    () => guarded.exhaustive();
+
+    // @ts-expect-error an option can't match a result pattern
+    () => matchWith(some(1)).with(P.ok(), () => 1);
+  });
+
+  test("throws if no case matched at runtime", () => {
+    const matcher = matchWith(some(1)).with(P.none, () => 1);
+
+    expect(() => (matcher as any).exhaustive()).toThrow(
+      "matchWith: no case matched the value"
+    );
+  });
+});
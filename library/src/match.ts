@@ -0,0 +1,227 @@
+import { deepEqual } from "./equal";
+import { NoneVariant, Option, SomeVariant, none, some } from "./option/option";
+import { ErrVariant, OkVariant, Result } from "./result/result";
+
+/*
+ * Pattern matching with ordered cases, for the cases `match` can't express:
+ * guards, literal values and nested options and results. The value space is
+ * tracked at the type level as a union of variant paths, e.g. `["ok", "none"]`,
+ * and every case without a guard or a literal removes the paths it covers.
+ */
+
+declare const covers: unique symbol;
+const patternTag = Symbol("Pattern");
+
+/**
+ * A pattern that matches values of type `I` and binds a value of type `O`
+ * for the handler. `C` are the variant paths it covers, `never` if it has
+ * a guard or a literal, since those can't make a match exhaustive.
+ */
+export interface Pattern<I, O, C> {
+  readonly [patternTag]: (value: I) => Option<O>;
+  readonly [covers]?: C;
+}
+
+declare const anything: unique symbol;
+
+/**
+ * The pattern that matches anything, the value is passed to the handler as it is.
+ */
+export type Wildcard = Pattern<unknown, typeof anything, any[]>;
+
+// the value bound by a pattern matching values of type `T`
+type Bound<O, T> = [O] extends [typeof anything] ? T : O;
+
+/**
+ * The variant paths of a value, e.g. `["ok", "some"] | ["ok", "none"] | ["err"]`
+ * for `Result<Option<T>, E>`. Anything other than an option or a result is a leaf.
+ */
+export type VariantPaths<V> = 0 extends 1 & V
+  ? []
+  : V extends SomeVariant<infer T>
+  ? ["some", ...VariantPaths<T>]
+  : V extends NoneVariant<any>
+  ? ["none"]
+  : V extends OkVariant<infer T, any>
+  ? ["ok", ...VariantPaths<T>]
+  : V extends ErrVariant<any, infer E>
+  ? ["err", ...VariantPaths<E>]
+  : [];
+
+const pattern = <I, O, C>(match: (value: I) => Option<O>): Pattern<I, O, C> =>
+  ({ [patternTag]: match } as Pattern<I, O, C>);
+
+const isPattern = (
+  value: unknown
+): value is Pattern<unknown, unknown, unknown> =>
+  typeof value === "object" && value !== null && patternTag in value;
+
+const wildcard: Wildcard = pattern((value) => some(value as typeof anything));
+
+// turns the argument of `P.some`, `P.ok` and `P.err` into a pattern for the inner value:
+// nothing and `P._` match anything, functions are guards, other values are literals
+const innerPattern = (args: unknown[]): Pattern<unknown, unknown, unknown> => {
+  if (args.length === 0) {
+    return wildcard;
+  }
+  const [arg] = args;
+  if (isPattern(arg)) {
+    return arg;
+  }
+  if (typeof arg === "function") {
+    return pattern((value) => (arg(value) ? some(value) : none));
+  }
+  return pattern((value) => (deepEqual(value, arg) ? some(value) : none));
+};
+
+/**
+ * The pattern constructors for `matchWith`.
+ */
+export type Patterns = {
+  /**
+   * Matches a `Some`. Without an argument it matches any `Some`, otherwise
+   * only the ones whose value satisfies the guard, equals the literal or
+   * matches the nested pattern.
+   */
+  some: VariantPatternConstructor<"some">;
+
+  /**
+   * Matches `None`.
+   */
+  none: Pattern<Option<unknown>, undefined, ["none"]>;
+
+  /**
+   * Matches an `Ok`, like `some` for options.
+   */
+  ok: VariantPatternConstructor<"ok">;
+
+  /**
+   * Matches an `Err`, like `some` for options.
+   */
+  err: VariantPatternConstructor<"err">;
+
+  /**
+   * Matches anything.
+   */
+  _: Wildcard;
+};
+
+type Wrap<Tag, T> = Tag extends "some"
+  ? Option<T>
+  : Tag extends "ok"
+  ? Result<T, unknown>
+  : Result<unknown, T>;
+
+// the type of a nested pattern comes from the outer pattern, not the other way around
+type NoInfer<T> = [T][T extends any ? 0 : never];
+
+type Prefixed<Tag, C> = C extends any[] ? [Tag, ...C] : never;
+
+type VariantPatternConstructor<Tag extends string> = {
+  <T>(): Pattern<Wrap<Tag, T>, T, [Tag, ...any[]]>;
+  <T, O, C>(pattern: Pattern<NoInfer<T>, O, C>): Pattern<
+    Wrap<Tag, T>,
+    Bound<O, T>,
+    Prefixed<Tag, C>
+  >;
+  <T, S extends T>(guard: (value: T) => value is S): Pattern<
+    Wrap<Tag, T>,
+    S,
+    never
+  >;
+  <T>(guard: (value: T) => boolean): Pattern<Wrap<Tag, T>, T, never>;
+  <T, L extends T>(literal: L): Pattern<Wrap<Tag, T>, L, never>;
+};
+
+export const P: Patterns = {
+  some: ((...args: unknown[]) => {
+    const inner = innerPattern(args);
+    return pattern((value: Option<unknown>) =>
+      value.isSome ? inner[patternTag](value.value) : none
+    );
+  }) as Patterns["some"],
+  none: pattern((value) => (value.isNone ? some(undefined) : none)),
+  ok: ((...args: unknown[]) => {
+    const inner = innerPattern(args);
+    return pattern((value: Result<unknown, unknown>) =>
+      value.isOk ? inner[patternTag](value.value) : none
+    );
+  }) as Patterns["ok"],
+  err: ((...args: unknown[]) => {
+    const inner = innerPattern(args);
+    return pattern((value: Result<unknown, unknown>) =>
+      value.isErr ? inner[patternTag](value.error) : none
+    );
+  }) as Patterns["err"],
+  _: wildcard,
+};
+
+/**
+ * The cases of a `matchWith`, `Remaining` are the variant paths that
+ * no case has covered yet.
+ */
+export class Matcher<I, Remaining, R> {
+  // only there so that `exhaustive` can tell matchers apart by what remains
+  private declare readonly remaining: Remaining;
+
+  constructor(
+    private readonly value: I,
+    private readonly matched: Option<R> = none
+  ) {}
+
+  /**
+   * Adds a case. The handler is called with the value bound by the pattern
+   * if no previous case has matched.
+   */
+  with<O, C, U>(
+    pattern: Pattern<I, O, C>,
+    handler: (value: Bound<O, I>) => U
+  ): Matcher<I, Exclude<Remaining, C>, R | U> {
+    if (this.matched.isSome) {
+      return new Matcher(this.value, this.matched);
+    }
+    return new Matcher(
+      this.value,
+      pattern[patternTag](this.value).map((value) =>
+        handler(value as Bound<O, I>)
+      )
+    );
+  }
+
+  /**
+   * Returns the result of the handler of the first matching case. It only
+   * compiles if the cases cover every variant, cases with guards or literals
+   * don't count.
+   */
+  exhaustive(this: Matcher<I, never, R>): R {
+    if (this.matched.isNone) {
+      throw new Error("matchWith: no case matched the value");
+    }
+    return this.matched.value;
+  }
+
+  /**
+   * Returns the result of the handler of the first matching case,
+   * or calls `handler` with the value if none matched.
+   */
+  otherwise<U>(handler: (value: I) => U): R | U {
+    return this.matched.isSome ? this.matched.value : handler(this.value);
+  }
+}
+
+/**
+ * Matches an option or a result against ordered cases. Patterns are built with `P`.
+ *
+ * @example
+ * ```ts
+ * const label = matchWith(findUser(id)) // Result<Option<User>, DbError>
+ *   .with(P.ok(P.some((user) => user.admin)), (user) => `admin ${user.name}`)
+ *   .with(P.ok(P.some()), (user) => user.name)
+ *   .with(P.ok(P.none), () => "guest")
+ *   .with(P.err(), (error) => error.message)
+ *   .exhaustive();
+ * ```
+ */
+export const matchWith = <I extends Option<any> | Result<any, any>>(
+  value: I
+): Matcher<I, VariantPaths<I>, never> => new Matcher(value);
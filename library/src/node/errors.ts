@@ -0,0 +1,156 @@
+/*
+ * Errors of the node adapters are plain objects discriminated by `code`,
+ * so they can be handled with a `switch` on the code instead of matching
+ * `message`. Codes the adapters don't know about become `"UNKNOWN"`,
+ * the original error is always kept in `cause`.
+ */
+
+/**
+ * An error of a system call, keyed by its errno code.
+ */
+export interface ErrnoError<C extends string> {
+  readonly code: C;
+  readonly message: string;
+  readonly syscall?: string;
+  readonly path?: string;
+  readonly cause: unknown;
+}
+
+type Errno<C> = C extends string ? ErrnoError<C> : never;
+
+const fsErrorCodes = [
+  "ENOENT",
+  "EACCES",
+  "EEXIST",
+  "EISDIR",
+  "ENOTDIR",
+  "ENOTEMPTY",
+  "EPERM",
+  "EBUSY",
+  "EMFILE",
+] as const;
+
+/**
+ * The errno codes of file system errors that are told apart.
+ */
+export type FsErrorCode = typeof fsErrorCodes[number];
+
+/**
+ * An error of a file system operation.
+ *
+ * @example
+ * ```ts
+ * const config = await readFile("config.json", "utf8");
+ * config.mapErr((error) => {
+ *   switch (error.code) {
+ *     case "ENOENT":
+ *       return "missing";
+ *     case "EACCES":
+ *       return "forbidden";
+ *     default:
+ *       return error.message;
+ *   }
+ * });
+ * ```
+ */
+export type FsError = Errno<FsErrorCode | "UNKNOWN">;
+
+/**
+ * The command of `execFile` exited with a non-zero exit code.
+ */
+export interface ExitError {
+  readonly code: "EXIT";
+  readonly message: string;
+  readonly exitCode: number;
+  readonly stdout: string;
+  readonly stderr: string;
+  readonly cause: unknown;
+}
+
+/**
+ * The command of `execFile` was killed by a signal, e.g. because of a timeout.
+ */
+export interface SignalError {
+  readonly code: "SIGNAL";
+  readonly message: string;
+  readonly signal: string;
+  readonly stdout: string;
+  readonly stderr: string;
+  readonly cause: unknown;
+}
+
+/**
+ * An error of `execFile`. `ENOENT` means that the command wasn't found.
+ */
+export type ExecError =
+  | Errno<"ENOENT" | "EACCES" | "UNKNOWN">
+  | ExitError
+  | SignalError;
+
+/**
+ * A required environment variable is not set.
+ */
+export interface MissingEnvError {
+  readonly code: "ENV_MISSING";
+  readonly message: string;
+  readonly name: string;
+}
+
+const isErrnoException = (
+  e: unknown
+): e is Error & { code?: unknown; syscall?: string; path?: string } =>
+  e instanceof Error;
+
+const toErrnoError = <C extends string>(
+  e: unknown,
+  codes: readonly C[]
+): Errno<C | "UNKNOWN"> => {
+  if (!isErrnoException(e)) {
+    return { code: "UNKNOWN", message: String(e), cause: e } as Errno<
+      C | "UNKNOWN"
+    >;
+  }
+  // `fs.rm` reports a directory without `recursive` as ERR_FS_EISDIR
+  const errno = e.code === "ERR_FS_EISDIR" ? "EISDIR" : e.code;
+  const code = codes.find((c) => c === errno) ?? "UNKNOWN";
+  return {
+    code,
+    message: e.message,
+    syscall: e.syscall,
+    path: e.path,
+    cause: e,
+  } as Errno<C | "UNKNOWN">;
+};
+
+export const toFsError = (e: unknown): FsError => toErrnoError(e, fsErrorCodes);
+
+export const toExecError = (
+  e: unknown,
+  stdout: string,
+  stderr: string
+): ExecError => {
+  if (isErrnoException(e) && typeof e.code === "number") {
+    return {
+      code: "EXIT",
+      message: e.message,
+      exitCode: e.code,
+      stdout,
+      stderr,
+      cause: e,
+    };
+  }
+  const signal = isErrnoException(e)
+    ? (e as { signal?: unknown }).signal
+    : null;
+  if (typeof signal === "string") {
+    return {
+      code: "SIGNAL",
+      message: (e as Error).message,
+      signal,
+      stdout,
+      stderr,
+      cause: e,
+    };
+  }
+  return toErrnoError(e, ["ENOENT", "EACCES"] as const);
+};
@@ -0,0 +1,55 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, describe, expect, expectTypeOf, test } from "vitest";
+import { Result } from "../result/result";
+import { FsError } from "./errors";
+import { mkdir, readFile, readdir, rm, stat, writeFile } from "./fs";
+
+describe("fs", () => {
+  const dir = mkdtempSync(join(tmpdir(), "this-is-ok-"));
+  const file = join(dir, "file.txt");
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  test("writeFile and readFile", async () => {
+    expect((await writeFile(file, "hello")).isOk).toBe(true);
+
+    const text = await readFile(file, "utf8");
+    expectTypeOf(text).toEqualTypeOf<Result<string, FsError>>();
+    expect(text.unwrap()).toBe("hello");
+
+    const buffer = await readFile(file);
+    expect(buffer.unwrap()).toEqual(Buffer.from("hello"));
+  });
+
+  test("missing files", async () => {
+    const error = (await readFile(join(dir, "missing"), "utf8")).unwrapErr();
+
+    expect(error.code).toBe("ENOENT");
+    expect(error.syscall).toBe("open");
+    expect(error.path).toBe(join(dir, "missing"));
+    expect(error.cause).toBeInstanceOf(Error);
+  });
+
+  test("mkdir, readdir and stat", async () => {
+    const nested = join(dir, "a", "b");
+
+    expect((await mkdir(nested, { recursive: true })).unwrap()).toBe(
+      join(dir, "a")
+    );
+    expect((await mkdir(nested)).unwrapErr().code).toBe("EEXIST");
+    expect((await readdir(join(dir, "a"))).unwrap()).toEqual(["b"]);
+    expect((await readdir(file)).unwrapErr().code).toBe("ENOTDIR");
+    expect((await stat(nested)).unwrap().isDirectory()).toBe(true);
+    expect(
+      await stat(join(dir, "missing")).isErrAnd((e) => e.code === "ENOENT")
+    ).toBe(true);
+  });
+
+  test("rm", async () => {
+    expect((await rm(join(dir, "a"))).unwrapErr().code).toBe("EISDIR");
+    expect((await rm(join(dir, "a"), { recursive: true })).isOk).toBe(true);
+    expect((await rm(join(dir, "a"))).unwrapErr().code).toBe("ENOENT");
+  });
+});
@@ -0,0 +1,87 @@
+import type { MakeDirectoryOptions, PathLike, RmOptions, Stats } from "fs";
+import * as fs from "fs/promises";
+import { AsyncResult } from "../result/async";
+import { fromPromise } from "../result/fns";
+import { FsError, toFsError } from "./errors";
+
+/*
+ * Result returning versions of `fs/promises`.
+ */
+
+/**
+ * Reads the whole content of a file. Returns a `Buffer` unless an encoding is given.
+ *
+ * @example
+ * ```ts
+ * const config = await readFile("config.json", "utf8").andThen(parseJson);
+ * ```
+ */
+export function readFile(
+  path: PathLike,
+  encoding: BufferEncoding
+): AsyncResult<string, FsError>;
+export function readFile(path: PathLike): AsyncResult<Buffer, FsError>;
+export function readFile(
+  path: PathLike,
+  encoding?: BufferEncoding
+): AsyncResult<string | Buffer, FsError> {
+  return fromPromise<string | Buffer, FsError>(
+    encoding ? fs.readFile(path, encoding) : fs.readFile(path),
+    toFsError
+  );
+}
+
+/**
+ * Writes data to a file, replacing the file if it already exists.
+ *
+ * @example
+ * ```ts
+ * await writeFile("out.txt", "hello").match({ ok: () => "saved", err: (e) => e.code });
+ * ```
+ */
+export const writeFile = (
+  path: PathLike,
+  data: string | Uint8Array,
+  encoding?: BufferEncoding
+): AsyncResult<void, FsError> =>
+  fromPromise(fs.writeFile(path, data, encoding), toFsError);
+
+/**
+ * Gets the stats of a file.
+ *
+ * @example
+ * ```ts
+ * const isDirectory = await stat("src").isOkAnd((stats) => stats.isDirectory());
+ * ```
+ */
+export const stat = (path: PathLike): AsyncResult<Stats, FsError> =>
+  fromPromise(fs.stat(path), toFsError);
+
+/**
+ * Reads the names of the entries of a directory.
+ */
+export const readdir = (path: PathLike): AsyncResult<string[], FsError> =>
+  fromPromise(fs.readdir(path), toFsError);
+
+/**
+ * Creates a directory. With `recursive: true` returns the first directory created,
+ * or `undefined` if the directory already existed.
+ */
+export const mkdir = (
+  path: PathLike,
+  options?: MakeDirectoryOptions
+): AsyncResult<string | undefined, FsError> =>
+  fromPromise(fs.mkdir(path, options), toFsError);
+
+/**
+ * Removes a file or a directory.
+ *
+ * @example
+ * ```ts
+ * await rm("dist", { recursive: true, force: true });
+ * ```
+ */
+export const rm = (
+  path: PathLike,
+  options?: RmOptions
+): AsyncResult<void, FsError> => fromPromise(fs.rm(path, options), toFsError);
@@ -0,0 +1,11 @@
+export * from "./fs";
+export * from "./process";
+export type {
+  ErrnoError,
+  ExecError,
+  ExitError,
+  FsError,
+  FsErrorCode,
+  MissingEnvError,
+  SignalError,
+} from "./errors";
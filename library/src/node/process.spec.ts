@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { execFile, getEnv, requireEnv } from "./process";
+
+describe("execFile", () => {
+  const node = process.execPath;
+
+  test("collects the output", async () => {
+    const res = await execFile(node, [
+      "-e",
+      "console.log('out'); console.error('err')",
+    ]);
+
+    expect(res.unwrap()).toEqual({ stdout: "out\n", stderr: "err\n" });
+  });
+
+  test("non-zero exit code", async () => {
+    const error = (
+      await execFile(node, ["-e", "console.log('out'); process.exit(3)"])
+    ).unwrapErr();
+
+    expect(error.code).toBe("EXIT");
+    if (error.code === "EXIT") {
+      expect(error.exitCode).toBe(3);
+      expect(error.stdout).toBe("out\n");
+    }
+  });
+
+  test("missing command", async () => {
+    const error = (await execFile("this-command-does-not-exist")).unwrapErr();
+    expect(error.code).toBe("ENOENT");
+  });
+
+  test("timeout", async () => {
+    const error = (
+      await execFile(node, ["-e", "setTimeout(() => {}, 10000)"], {
+        timeout: 100,
+      })
+    ).unwrapErr();
+
+    expect(error.code).toBe("SIGNAL");
+    if (error.code === "SIGNAL") {
+      expect(error.signal).toBe("SIGTERM");
+    }
+  });
+});
+
+describe("env", () => {
+  afterEach(() => {
+    delete process.env.THIS_IS_OK_TEST;
+  });
+
+  test("getEnv", () => {
+    expect(getEnv("THIS_IS_OK_TEST").isNone).toBe(true);
+    process.env.THIS_IS_OK_TEST = "";
+    expect(getEnv("THIS_IS_OK_TEST").unwrap()).toBe("");
+  });
+
+  test("requireEnv", () => {
+    expect(requireEnv("THIS_IS_OK_TEST").unwrapErr()).toEqual({
+      code: "ENV_MISSING",
+      message: "Environment variable THIS_IS_OK_TEST is not set",
+      name: "THIS_IS_OK_TEST",
+    });
+    process.env.THIS_IS_OK_TEST = "value";
+    expect(requireEnv("THIS_IS_OK_TEST").unwrap()).toBe("value");
+  });
+});
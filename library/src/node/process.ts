@@ -0,0 +1,84 @@
+import * as childProcess from "child_process";
+import { Option, none, some } from "../option/option";
+import { AsyncResult, asyncResult } from "../result/async";
+import { Result, err, ok } from "../result/result";
+import { ExecError, MissingEnvError, toExecError } from "./errors";
+
+/**
+ * The output of a command that exited successfully.
+ */
+export interface ExecOutput {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Options of `execFile`.
+ */
+export interface ExecFileOptions {
+  cwd?: string;
+  env?: Record<string, string | undefined>;
+  timeout?: number;
+  maxBuffer?: number;
+}
+
+/**
+ * Runs a command without a shell and collects its output.
+ *
+ * @example
+ * ```ts
+ * const branch = await execFile("git", ["branch", "--show-current"])
+ *   .map(({ stdout }) => stdout.trim())
+ *   .mapErr((error) => (error.code === "ENOENT" ? "git is not installed" : error.message));
+ * ```
+ */
+export const execFile = (
+  file: string,
+  args: readonly string[] = [],
+  options: ExecFileOptions = {}
+): AsyncResult<ExecOutput, ExecError> =>
+  asyncResult(
+    new Promise<Result<ExecOutput, ExecError>>((resolve) => {
+      childProcess.execFile(
+        file,
+        args,
+        { ...options, encoding: "utf8" },
+        (error, stdout, stderr) => {
+          resolve(
+            error
+              ? err(toExecError(error, stdout, stderr))
+              : ok({ stdout, stderr })
+          );
+        }
+      );
+    })
+  );
+
+/**
+ * Gets the value of an environment variable.
+ *
+ * @example
+ * ```ts
+ * const port = getEnv("PORT").flatMap((port) => parseInt(port).ok()).unwrapOr(3000);
+ * ```
+ */
+export const getEnv = (name: string): Option<string> => {
+  const value = process.env[name];
+  return typeof value === "undefined" ? none : some(value);
+};
+
+/**
+ * Gets the value of an environment variable that has to be set.
+ *
+ * @example
+ * ```ts
+ * const url = requireEnv("DATABASE_URL");
+ * // url: Result<string, MissingEnvError>
+ * ```
+ */
+export const requireEnv = (name: string): Result<string, MissingEnvError> =>
+  getEnv(name).okOrElse(() => ({
+    code: "ENV_MISSING" as const,
+    message: `Environment variable ${name} is not set`,
+    name,
+  }));
@@ -0,0 +1,251 @@
+import { describe, expect, expectTypeOf, test, vitest } from "vitest";
+import { AsyncOption, asyncOption, noneAsync, someAsync } from "./async";
+import { err, ok } from "../result/result";
+import { Option, none, some } from "./option";
+
+describe("AsyncOption", () => {
+  const delay = <T>(value: T): Promise<T> =>
+    new Promise((resolve) => setTimeout(() => resolve(value), 0));
+
+  const someVariant = asyncOption(delay(some(42)));
+  const noneVariant = asyncOption(delay(none as Option<number>));
+
+  test("await resolves to a plain option", async () => {
+    const opt = await someVariant;
+    expectTypeOf(opt).toEqualTypeOf<Option<number>>();
+    expect(opt.unwrap()).toBe(42);
+    expect((await noneVariant).isNone).toBe(true);
+    expect((await noneAsync()).isNone).toBe(true);
+  });
+
+  test("isSomeAnd", async () => {
+    expect(await someVariant.isSomeAnd(async (v) => v === 42)).toBe(true);
+    expect(await someVariant.isSomeAnd((v) => v > 100)).toBe(false);
+    expect(await noneVariant.isSomeAnd((v) => v === 42)).toBe(false);
+  });
+
+  test("unwrap and expect", async () => {
+    expect(await someVariant.unwrap()).toBe(42);
+    expect(await someVariant.expect("message")).toBe(42);
+    await expect(noneVariant.unwrap()).rejects.toThrow();
+    await expect(noneVariant.expect("message")).rejects.toThrow("message");
+  });
+
+  test("unwrapOr and unwrapOrElse", async () => {
+    expect(await someVariant.unwrapOr(1)).toBe(42);
+    expect(await noneVariant.unwrapOr(1)).toBe(1);
+    expect(await noneVariant.unwrapOrElse(async () => 2)).toBe(2);
+  });
+
+  test("map with sync and async callbacks", async () => {
+    const opt = someVariant.map((x) => x + 1).map(async (x) => `${x}`);
+    expectTypeOf(opt).toEqualTypeOf<AsyncOption<string>>();
+    expect(await opt.unwrap()).toBe("43");
+
+    const fn = vitest.fn();
+    expect((await noneVariant.map(fn)).isNone).toBe(true);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  test("mapOr and mapOrElse", async () => {
+    expect(await someVariant.mapOr(0, async (x) => x + 1)).toBe(43);
+    expect(await noneVariant.mapOr(0, (x) => x + 1)).toBe(0);
+    expect(
+      await noneVariant.mapOrElse(
+        async () => 100,
+        (x) => x + 1
+      )
+    ).toBe(100);
+  });
+
+  test("okOr and okOrElse", async () => {
+    expect(await someVariant.okOr("error").unwrap()).toBe(42);
+    expect(await noneVariant.okOr("error").unwrapErr()).toBe("error");
+    expect(await someVariant.okOrElse(async () => "error").unwrap()).toBe(42);
+    expect(await noneVariant.okOrElse(async () => "error").unwrapErr()).toBe(
+      "error"
+    );
+  });
+
+  test("and, or and orElse", async () => {
+    expect(await someVariant.and(delay(some("b"))).unwrap()).toBe("b");
+    expect((await noneVariant.and(some("b"))).isNone).toBe(true);
+    expect(await someVariant.or(some(1)).unwrap()).toBe(42);
+    expect(await noneVariant.or(delay(some(1))).unwrap()).toBe(1);
+    expect(await noneVariant.orElse(async () => some(2)).unwrap()).toBe(2);
+  });
+
+  test("skipped rejections of and, or, xor and zip aren't left unhandled", async () => {
+    const onUnhandled = vitest.fn();
+    process.on("unhandledRejection", onUnhandled);
+    try {
+      const boom = () => Promise.reject<Option<number>>(new Error("boom"));
+      const aborted = new AbortController();
+      aborted.abort();
+      expect((await noneAsync().and(boom())).isNone).toBe(true);
+      expect(await someAsync(1).or(boom()).unwrap()).toBe(1);
+      expect(
+        (await someAsync(1).withSignal(aborted.signal).xor(boom())).isNone
+      ).toBe(true);
+      expect(
+        (await someAsync(1).withSignal(aborted.signal).zip(boom())).isNone
+      ).toBe(true);
+      await expect(someAsync(1).and(boom())).rejects.toThrow("boom");
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(onUnhandled).not.toHaveBeenCalled();
+    } finally {
+      process.off("unhandledRejection", onUnhandled);
+    }
+  });
+
+  test("flatMap and andThen accept options, promises and async options", async () => {
+    const opt = someVariant
+      .flatMap((x) => some(x + 1))
+      .flatMap(async (x) => some(x + 1))
+      .andThen((x) => someAsync(x + 1));
+
+    expect(await opt.unwrap()).toBe(45);
+
+    const fn = vitest.fn();
+    const short = someVariant
+      .andThen(() => noneAsync<number>())
+      .andThen(async (x) => {
+        fn();
+        return some(x);
+      });
+
+    expect((await short).isNone).toBe(true);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  test("filter", async () => {
+    expect(await someVariant.filter(async (x) => x === 42).unwrap()).toBe(42);
+    expect((await someVariant.filter((x) => x === 1)).isNone).toBe(true);
+    expect((await noneVariant.filter(() => true)).isNone).toBe(true);
+  });
+
+  test("tap waits for the callback and keeps the chain going", async () => {
+    let value = 0;
+
+    const opt = await someVariant
+      .tap(async (x) => {
+        await delay(null);
+        value += x;
+      })
+      .map((x) => x + 1);
+
+    expect(value).toBe(42);
+    expect(opt.unwrap()).toBe(43);
+
+    await noneVariant.tap((x) => {
+      value += x;
+    });
+    expect(value).toBe(42);
+  });
+
+  test("match", async () => {
+    const pattern = {
+      some: async (x: number) => x + 1,
+      none: () => 0,
+    };
+
+    expect(await someVariant.match(pattern)).toBe(43);
+    expect(await noneVariant.match(pattern)).toBe(0);
+  });
+
+  test("isNoneOr", async () => {
+    expect(await someVariant.isNoneOr(async (v) => v === 42)).toBe(true);
+    expect(await someVariant.isNoneOr((v) => v > 100)).toBe(false);
+    expect(await noneVariant.isNoneOr(() => false)).toBe(true);
+  });
+
+  test("unwrapOrDefault", async () => {
+    expect(await someVariant.unwrapOrDefault(Number)).toBe(42);
+    expect(await noneVariant.unwrapOrDefault(Number)).toBe(0);
+  });
+
+  test("filterMap", async () => {
+    const names = new Map([[42, "John"]]);
+    const name = someVariant.filterMap(async (x) => names.get(x));
+    expectTypeOf(name).toEqualTypeOf<AsyncOption<string>>();
+    expect(await name.unwrap()).toBe("John");
+    expect((await someVariant.filterMap(() => null)).isNone).toBe(true);
+    expect((await noneVariant.filterMap((x) => x)).isNone).toBe(true);
+  });
+
+  test("zip, zipWith and xor", async () => {
+    expect(await someVariant.zip(delay(some("a"))).unwrap()).toEqual([42, "a"]);
+    expect((await someVariant.zip(none)).isNone).toBe(true);
+    expect(
+      await someVariant.zipWith(some(1), async (a, b) => a + b).unwrap()
+    ).toBe(43);
+    expect((await someVariant.xor(delay(some(1)))).isNone).toBe(true);
+    expect(await noneVariant.xor(some(1)).unwrap()).toBe(1);
+  });
+
+  test("flatten and transpose", async () => {
+    expect(await someAsync(some(1)).flatten().unwrap()).toBe(1);
+    expect((await someAsync(none).flatten()).isNone).toBe(true);
+
+    const res = someAsync(err("error")).transpose();
+    expect(await res.unwrapErr()).toBe("error");
+    expect((await someAsync(ok(1)).transpose().unwrap()).unwrap()).toBe(1);
+    expect((await noneAsync().transpose().unwrap()).isNone).toBe(true);
+  });
+
+  test("peek waits for the callback and keeps the chain going", async () => {
+    const fn = vitest.fn();
+    expect(await someVariant.peek(fn).unwrap()).toBe(42);
+    expect(fn).toHaveBeenCalledWith(42);
+  });
+
+  test("iter", async () => {
+    const values: number[] = [];
+    for await (const value of someVariant.iter()) {
+      values.push(value);
+    }
+    for await (const value of noneVariant.iter()) {
+      values.push(value);
+    }
+    expect(values).toEqual([42]);
+  });
+
+  describe("withSignal", () => {
+    test("skips the later steps once the signal is aborted", async () => {
+      const controller = new AbortController();
+      let resolveUser = (_: Option<string>) => {};
+      const user = new Promise<Option<string>>((resolve) => {
+        resolveUser = resolve;
+      });
+      const findAvatar = vitest.fn(async (user: string) => some(`${user}.png`));
+
+      const avatar = asyncOption(user)
+        .withSignal(controller.signal)
+        .flatMap(findAvatar);
+      controller.abort();
+      expect((await avatar).isNone).toBe(true);
+
+      resolveUser(some("John"));
+      await delay(null);
+      expect(findAvatar).not.toHaveBeenCalled();
+    });
+
+    test("doesn't wait for a pending step", async () => {
+      const controller = new AbortController();
+      const opt = someVariant
+        .withSignal(controller.signal)
+        .map(() => new Promise<number>(() => {}));
+      controller.abort();
+
+      expect((await opt).isNone).toBe(true);
+    });
+
+    test("resolves normally if the signal isn't aborted", async () => {
+      const opt = someVariant
+        .withSignal(new AbortController().signal)
+        .map((x) => x + 1);
+      expect(await opt.unwrap()).toBe(43);
+    });
+  });
+});
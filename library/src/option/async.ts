@@ -0,0 +1,374 @@
+import { abortable } from "../abort";
+import { handled } from "../handled";
+import { lazySelectAsync } from "../iterables";
+import { AsyncResult, Awaitable, asyncResult } from "../result/async";
+import { Result, err, ok } from "../result/result";
+import { Option, none, some } from "./option";
+
+/**
+ * An awaitable `Option<T>`. It has the same methods as an `Option`,
+ * but every callback can be either sync or async and the whole chain
+ * resolves to a plain `Option` when awaited.
+ *
+ * @example
+ * ```ts
+ * const name: Option<string> = await asyncOption(findUser(id))
+ *   .flatMap(async (user) => of(user.nickname))
+ *   .map((nickname) => nickname.trim());
+ * ```
+ */
+export class AsyncOption<T> implements PromiseLike<Option<T>> {
+  constructor(
+    private readonly promise: Promise<Option<T>>,
+    private readonly signal?: AbortSignal
+  ) {}
+
+  then<A = Option<T>, B = never>(
+    onfulfilled?: ((option: Option<T>) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: any) => B | PromiseLike<B>) | null
+  ): Promise<A | B> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  // With a signal the step is skipped once it's aborted, see `withSignal`.
+  private chain<U>(
+    f: (option: Option<T>) => Awaitable<Option<U>>
+  ): AsyncOption<U> {
+    const { signal } = this;
+    if (!signal) {
+      return new AsyncOption(this.promise.then(f));
+    }
+    return new AsyncOption(
+      abortable(
+        this.promise.then((option) => (signal.aborted ? none : f(option))),
+        signal,
+        () => none
+      ),
+      signal
+    );
+  }
+
+  /**
+   * Cancels the rest of the chain with a signal. Once it's aborted, the chain
+   * resolves to `None` right away and the callbacks of the steps after
+   * `withSignal` aren't called anymore.
+   *
+   * @example
+   * ```ts
+   * const avatar = await asyncOption(findUser(id, { signal }))
+   *   .withSignal(signal)
+   *   .flatMap((user) => findAvatar(user.avatarId, { signal }));
+   * ```
+   */
+  withSignal(signal: AbortSignal): AsyncOption<T> {
+    return new AsyncOption(
+      abortable(this.promise, signal, () => none),
+      signal
+    );
+  }
+
+  /**
+   *  Resolves to `true` if the option is a Some variant and the value inside
+   *  of it matches a (possibly async) predicate.
+   */
+  isSomeAnd(predicate: (value: T) => Awaitable<boolean>): Promise<boolean> {
+    return this.promise.then(
+      async (option) => option.isSome && (await predicate(option.value))
+    );
+  }
+
+  /**
+   *  Resolves to `true` if the option is `None` or the (possibly async)
+   *  predicate returns `true` for the inner value.
+   */
+  isNoneOr(predicate: (value: T) => Awaitable<boolean>): Promise<boolean> {
+    return this.promise.then(
+      async (option) => option.isNone || (await predicate(option.value))
+    );
+  }
+
+  /**
+   *  Resolves to the inner value or rejects with the given message
+   *  if the option is a `None` variant.
+   */
+  expect(message: string): Promise<T> {
+    return this.promise.then((option) => option.expect(message));
+  }
+
+  /**
+   *  Resolves to the inner value or rejects if the option is a `None` variant.
+   */
+  unwrap(): Promise<T> {
+    return this.promise.then((option) => option.unwrap());
+  }
+
+  /**
+   *  Resolves to the inner value or the provided default value.
+   *
+   * @example
+   * ```ts
+   *  expect(await someAsync(42).unwrapOr(1)).toBe(42)
+   *  expect(await noneAsync().unwrapOr(1)).toBe(1)
+   * ```
+   */
+  unwrapOr<T1 extends T>(defaultValue: T1): Promise<T> {
+    return this.promise.then((option) => option.unwrapOr(defaultValue));
+  }
+
+  /**
+   *  Resolves to the inner value or computes it from a (possibly async) function.
+   */
+  unwrapOrElse<T1 extends T>(defaultValueFun: () => Awaitable<T1>): Promise<T> {
+    return this.promise.then((option) =>
+      option.isSome ? option.value : defaultValueFun()
+    );
+  }
+
+  /**
+   *  Resolves to the inner value or the default value of a type, like
+   *  `Option.unwrapOrDefault`.
+   */
+  unwrapOrDefault<T1 extends T>(type: () => T1): Promise<T> {
+    return this.promise.then((option) => option.unwrapOrDefault(type));
+  }
+
+  /**
+   *  Maps an AsyncOption<T> to AsyncOption<U> by applying a (possibly async)
+   *  function to a contained value.
+   *
+   * @example
+   * ```ts
+   *  expect(await someAsync(42).map(async (x) => x + 1).unwrap()).toBe(43)
+   * ```
+   */
+  map<U>(f: (value: T) => Awaitable<U>): AsyncOption<U> {
+    return this.chain(async (option) =>
+      option.isSome ? some(await f(option.value)) : none
+    );
+  }
+
+  /**
+   *  Resolves to the provided default result (if none),
+   *  or applies a (possibly async) function to the contained value (if any).
+   */
+  mapOr<U>(defaultValue: U, f: (value: T) => Awaitable<U>): Promise<U> {
+    return this.promise.then((option) =>
+      option.isSome ? f(option.value) : defaultValue
+    );
+  }
+
+  /**
+   *  Resolves to the result of `defaultValueFun` (if none),
+   *  or applies `f` to the contained value (if any).
+   */
+  mapOrElse<U>(
+    defaultValueFun: () => Awaitable<U>,
+    f: (arg: T) => Awaitable<U>
+  ): Promise<U> {
+    return this.promise.then((option) =>
+      option.isSome ? f(option.value) : defaultValueFun()
+    );
+  }
+
+  /**
+   *  Converts to an `AsyncResult`, mapping `None` to `Err(error)`.
+   */
+  okOr<E>(error: E): AsyncResult<T, E> {
+    return asyncResult(this.promise.then((option) => option.okOr(error)));
+  }
+
+  /**
+   *  Converts to an `AsyncResult`, mapping `None` to an error computed by a
+   *  (possibly async) function.
+   */
+  okOrElse<E>(f: () => Awaitable<E>): AsyncResult<T, E> {
+    return asyncResult(
+      this.promise.then(
+        async (option): Promise<Result<T, E>> =>
+          option.isSome ? ok(option.value) : err(await f())
+      )
+    );
+  }
+
+  /**
+   *  Returns None if the option is None, otherwise returns `b`.
+   */
+  and<U>(b: Awaitable<Option<U>>): AsyncOption<U> {
+    handled(b);
+    return this.chain((option) => (option.isSome ? b : none));
+  }
+
+  /**
+   *  Returns the option if it contains a value, otherwise returns `b`.
+   */
+  or<T1 extends T>(b: Awaitable<Option<T1>>): AsyncOption<T> {
+    handled(b);
+    return this.chain<T>((option) => (option.isSome ? option : b));
+  }
+
+  /**
+   *  Returns the option if it contains a value,
+   *  otherwise calls `f` and returns its result.
+   */
+  orElse<T1 extends T>(f: () => Awaitable<Option<T1>>): AsyncOption<T> {
+    return this.chain<T>((option) => (option.isSome ? option : f()));
+  }
+
+  /**
+   *  Returns `Some` if exactly one of the options is `Some`, otherwise `None`.
+   */
+  xor<T1 extends T>(other: Awaitable<Option<T1>>): AsyncOption<T> {
+    handled(other);
+    return this.chain(async (option) => option.xor(await other));
+  }
+
+  /**
+   *  Returns None if the option is None, otherwise calls
+   *  `f` with the wrapped value and returns its result.
+   *  `f` can return an `Option`, a `Promise<Option>` or an `AsyncOption`.
+   *
+   * @alias andThen
+   *
+   * @example
+   * ```ts
+   *  expect(await someAsync(42).flatMap(async (x) => some(x + 1)).unwrap()).toBe(43)
+   * ```
+   */
+  flatMap<U>(f: (value: T) => Awaitable<Option<U>>): AsyncOption<U> {
+    return this.chain((option) => (option.isSome ? f(option.value) : none));
+  }
+
+  /**
+   * @alias flatMap
+   */
+  andThen<U>(f: (value: T) => Awaitable<Option<U>>): AsyncOption<U> {
+    return this.flatMap(f);
+  }
+
+  /**
+   *  Removes one level of nesting from an async option of an option.
+   */
+  flatten<U>(this: AsyncOption<Option<U>>): AsyncOption<U> {
+    return this.chain((option) => option.flatten());
+  }
+
+  /**
+   *  Transposes an async option of a result into an async result of an option,
+   *  like `Option.transpose`.
+   */
+  transpose<U, E>(this: AsyncOption<Result<U, E>>): AsyncResult<Option<U>, E> {
+    return asyncResult(this.promise.then((option) => option.transpose()));
+  }
+
+  /**
+   *  Zips the option with another (possibly async) option.
+   *  Resolves to `Some` with a tuple of both values if both are `Some`,
+   *  otherwise to `None`.
+   */
+  zip<U>(other: Awaitable<Option<U>>): AsyncOption<[T, U]> {
+    handled(other);
+    return this.chain(async (option) => option.zip(await other));
+  }
+
+  /**
+   *  Zips the option with another (possibly async) option using a (possibly
+   *  async) function, like `Option.zipWith`.
+   */
+  zipWith<U, R>(
+    other: Awaitable<Option<U>>,
+    f: (value: T, other: U) => Awaitable<R>
+  ): AsyncOption<R> {
+    return this.zip(other).map(([value, otherValue]) => f(value, otherValue));
+  }
+
+  /**
+   *  Runs the given (possibly async) void function with the inner value and waits for it.
+   *  Unlike `Option.tap` it returns the same async option so the chain can continue.
+   */
+  tap(f: (value: T) => Awaitable<void>): AsyncOption<T> {
+    return this.chain(async (option) => {
+      if (option.isSome) {
+        await f(option.value);
+      }
+      return option;
+    });
+  }
+
+  /**
+   * @alias tap
+   */
+  peek(f: (value: T) => Awaitable<void>): AsyncOption<T> {
+    return this.tap(f);
+  }
+
+  /**
+   *  Returns `None` if the option is `None` or the (possibly async) predicate
+   *  returns `false` for the contained value, otherwise returns the option.
+   */
+  filter(predicate: (arg: T) => Awaitable<boolean>): AsyncOption<T> {
+    return this.chain(async (option) =>
+      option.isSome && (await predicate(option.value)) ? option : none
+    );
+  }
+
+  /**
+   *  Maps the inner value with a (possibly async) function and resolves to
+   *  `None` if it returns `null` or `undefined`.
+   */
+  filterMap<U>(
+    f: (value: T) => Awaitable<U | null | undefined>
+  ): AsyncOption<U> {
+    return this.chain(async (option) => {
+      if (option.isNone) {
+        return none;
+      }
+      const mapped = await f(option.value);
+      return mapped === null || typeof mapped === "undefined"
+        ? none
+        : some(mapped);
+    });
+  }
+
+  /**
+   * Resolves to the result of the `some` or `none` callback, depending on the variant.
+   */
+  match<U>(pattern: {
+    some: (value: T) => Awaitable<U>;
+    none: () => Awaitable<U>;
+  }): Promise<U> {
+    return this.promise.then((option) =>
+      option.isSome ? pattern.some(option.value) : pattern.none()
+    );
+  }
+
+  /**
+   * Returns an async iterator over the inner value, it yields once for some
+   * and never for none.
+   */
+  iter(): AsyncIterableIterator<T> {
+    return lazySelectAsync(this.promise, (option) => option.iter());
+  }
+}
+
+/**
+ * Creates an `AsyncOption<T>` from an `Option` or a promise of an `Option`.
+ *
+ * @example
+ * ```ts
+ * const name = asyncOption(findUser(id)).map((user) => user.name);
+ * expect(await name.unwrapOr("anonymous")).toBe("John");
+ * ```
+ */
+export const asyncOption = <T>(option: Awaitable<Option<T>>): AsyncOption<T> =>
+  new AsyncOption(Promise.resolve(option));
+
+/**
+ * Creates an `AsyncOption` that resolves to `some(value)`.
+ */
+export const someAsync = <T>(value: T): AsyncOption<T> =>
+  asyncOption(some(value));
+
+/**
+ * Creates an `AsyncOption` that resolves to `none`.
+ */
+export const noneAsync = <T = any>(): AsyncOption<T> => asyncOption(none);
@@ -0,0 +1,173 @@
+import { describe, expect, expectTypeOf, test, vitest } from "vitest";
+import {
+  OptionMap,
+  at,
+  findIndexOption,
+  findOption,
+  flattenOptions,
+  getOption,
+  head,
+  last,
+  maxBy,
+  minBy,
+  prop,
+} from "./collections";
+import { Option, none, some } from "./option";
+
+describe("collections", () => {
+  test("getOption", () => {
+    const map = new Map<string, number | undefined>([
+      ["a", 1],
+      ["b", undefined],
+    ]);
+
+    expect(getOption(map, "a").unwrap()).toBe(1);
+    expect(getOption(map, "b").isSome).toBe(true);
+    expect(getOption(map, "b").unwrap()).toBe(undefined);
+    expect(getOption(map, "c").isNone).toBe(true);
+
+    const key = {};
+    expect(getOption(new WeakMap([[key, 1]]), key).unwrap()).toBe(1);
+  });
+
+  test("head, last and at", () => {
+    expect(head([1, 2, 3]).unwrap()).toBe(1);
+    expect(head([]).isNone).toBe(true);
+    expect(head([undefined]).isSome).toBe(true);
+    expect(last([1, 2, 3]).unwrap()).toBe(3);
+    expect(last([]).isNone).toBe(true);
+    expect(at([1, 2, 3], 1).unwrap()).toBe(2);
+    expect(at([1, 2, 3], -3).unwrap()).toBe(1);
+    expect(at([1, 2, 3], 3).isNone).toBe(true);
+    expect(at([1, 2, 3], -4).isNone).toBe(true);
+  });
+
+  test("findOption", () => {
+    expect(findOption([1, 2, 3], (x) => x > 1).unwrap()).toBe(2);
+    expect(findOption(new Set([1, 2, 3]), (x) => x > 3).isNone).toBe(true);
+    expect(findOption([undefined], () => true).isSome).toBe(true);
+
+    const found = findOption(
+      [1, "a"] as (number | string)[],
+      (x): x is string => typeof x === "string"
+    );
+    expectTypeOf(found).toEqualTypeOf<Option<string>>();
+
+    const predicate = vitest.fn(() => true);
+    findOption([1, 2], predicate);
+    expect(predicate).toHaveBeenCalledOnce();
+    expect(predicate).toHaveBeenCalledWith(1, 0);
+  });
+
+  test("findIndexOption", () => {
+    expect(findIndexOption(["a", "b"], (x) => x === "b").unwrap()).toBe(1);
+    expect(findIndexOption(["a", "b"], (x) => x === "c").isNone).toBe(true);
+  });
+
+  test("maxBy and minBy", () => {
+    const users = [
+      { name: "John", age: 32 },
+      { name: "Jane", age: 41 },
+      { name: "Jim", age: 41 },
+      { name: "Jack", age: 18 },
+    ];
+
+    expect(maxBy(users, (user) => user.age).unwrap().name).toBe("Jane");
+    expect(minBy(users, (user) => user.age).unwrap().name).toBe("Jack");
+    expect(maxBy([], (x: number) => x).isNone).toBe(true);
+    expect(minBy([], (x: number) => x).isNone).toBe(true);
+    expect(maxBy([-Infinity], (x) => x).unwrap()).toBe(-Infinity);
+  });
+
+  test("prop", () => {
+    const headers: Record<string, string | undefined> = {
+      accept: "text/html",
+      host: undefined,
+    };
+
+    expect(prop(headers, "accept").unwrap()).toBe("text/html");
+    expect(prop(headers, "host").isSome).toBe(true);
+    expect(prop(headers, "toString").isNone).toBe(true);
+    expect(prop(headers, "missing").isNone).toBe(true);
+  });
+});
+
+describe("flattenOptions", () => {
+  test("iterables", () => {
+    expect([...flattenOptions([some(1), none, some(2)])]).toEqual([1, 2]);
+  });
+
+  test("is lazy", () => {
+    const fn = vitest.fn(() => some(2));
+    function* options() {
+      yield some(1);
+      yield fn();
+    }
+
+    const iterator = flattenOptions(options());
+    expect(iterator.next()).toEqual({ done: false, value: 1 });
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  test("async iterables", async () => {
+    async function* options() {
+      yield some(1);
+      yield none;
+      yield some(2);
+    }
+
+    const values: number[] = [];
+    for await (const value of flattenOptions(options())) {
+      values.push(value);
+    }
+    expect(values).toEqual([1, 2]);
+  });
+});
+
+describe("OptionMap", () => {
+  const users = () =>
+    new OptionMap([
+      [1, { name: "John", age: 32 }],
+      [2, { name: "Jane", age: 41 }],
+    ]);
+
+  test("get", () => {
+    const map = users();
+
+    expect(map.get(1).unwrap().name).toBe("John");
+    expect(map.get(3).isNone).toBe(true);
+    expect(new OptionMap([["a", undefined]]).get("a").isSome).toBe(true);
+  });
+
+  test("set, has, delete and clear", () => {
+    const map = users().set(3, { name: "Jim", age: 18 });
+
+    expect(map.size).toBe(3);
+    expect(map.has(3)).toBe(true);
+    expect(map.delete(3).unwrap().name).toBe("Jim");
+    expect(map.delete(3).isNone).toBe(true);
+    map.clear();
+    expect(map.size).toBe(0);
+  });
+
+  test("find, findKey, maxBy and minBy", () => {
+    const map = users();
+
+    expect(map.find((user) => user.age > 40).unwrap().name).toBe("Jane");
+    expect(map.findKey((user) => user.name === "John").unwrap()).toBe(1);
+    expect(map.findKey((_, key) => key > 2).isNone).toBe(true);
+    expect(map.maxBy((user) => user.age).unwrap().name).toBe("Jane");
+    expect(map.minBy((user) => user.age).unwrap().name).toBe("John");
+  });
+
+  test("iteration", () => {
+    const map = users();
+
+    expect(Array.from(map.keys())).toEqual([1, 2]);
+    expect(Array.from(map).map(([, user]) => user.name)).toEqual([
+      "John",
+      "Jane",
+    ]);
+    expect(map.toMap()).toEqual(new Map(map.entries()));
+  });
+});
@@ -0,0 +1,311 @@
+import { lazyFlatMap } from "../iterables";
+import { Option, none, some } from "./option";
+
+/*
+ * Option returning lookups for maps, sets, arrays and records. Unlike
+ * `of(map.get(key))`, they check whether the entry exists, so a stored
+ * `undefined` becomes `Some(undefined)` and not `None`.
+ */
+
+/**
+ * Anything with `has` and `get`, e.g. a `Map` or a `WeakMap`.
+ */
+export interface MapLike<K, V> {
+  has(key: K): boolean;
+  get(key: K): V | undefined;
+}
+
+/**
+ * Gets the value of a key from a map.
+ *
+ * @example
+ * ```ts
+ * const map = new Map([["a", 1], ["b", undefined]]);
+ * expect(getOption(map, "a").unwrap()).toBe(1);
+ * expect(getOption(map, "b").isSome).toBe(true);
+ * expect(getOption(map, "c").isNone).toBe(true);
+ * ```
+ */
+export const getOption = <K, V>(map: MapLike<K, V>, key: K): Option<V> =>
+  map.has(key) ? some(map.get(key) as V) : none;
+
+/**
+ * Gets the element at the index of an array. Negative indexes count back
+ * from the end of the array, like in `Array.prototype.at`.
+ *
+ * @example
+ * ```ts
+ * expect(at([1, 2, 3], 1).unwrap()).toBe(2);
+ * expect(at([1, 2, 3], -1).unwrap()).toBe(3);
+ * expect(at([1, 2, 3], 3).isNone).toBe(true);
+ * ```
+ */
+export const at = <T>(array: readonly T[], index: number): Option<T> => {
+  const i = index < 0 ? array.length + index : index;
+  return i >= 0 && i < array.length ? some(array[i]) : none;
+};
+
+/**
+ * Gets the first element of an array.
+ *
+ * @example
+ * ```ts
+ * expect(head([1, 2, 3]).unwrap()).toBe(1);
+ * expect(head([]).isNone).toBe(true);
+ * ```
+ */
+export const head = <T>(array: readonly T[]): Option<T> => at(array, 0);
+
+/**
+ * Gets the last element of an array.
+ *
+ * @example
+ * ```ts
+ * expect(last([1, 2, 3]).unwrap()).toBe(3);
+ * expect(last([]).isNone).toBe(true);
+ * ```
+ */
+export const last = <T>(array: readonly T[]): Option<T> => at(array, -1);
+
+/**
+ * Finds the first item of a collection that satisfies the predicate.
+ *
+ * @example
+ * ```ts
+ * expect(findOption([1, 2, 3], (x) => x > 1).unwrap()).toBe(2);
+ * expect(findOption(new Set([1, 2, 3]), (x) => x > 3).isNone).toBe(true);
+ * ```
+ */
+export function findOption<T, S extends T>(
+  items: Iterable<T>,
+  predicate: (item: T, index: number) => item is S
+): Option<S>;
+export function findOption<T>(
+  items: Iterable<T>,
+  predicate: (item: T, index: number) => boolean
+): Option<T>;
+export function findOption<T>(
+  items: Iterable<T>,
+  predicate: (item: T, index: number) => boolean
+): Option<T> {
+  let index = 0;
+  for (const item of items) {
+    if (predicate(item, index++)) {
+      return some(item);
+    }
+  }
+  return none;
+}
+
+/**
+ * Finds the index of the first element of an array that satisfies the predicate.
+ *
+ * @example
+ * ```ts
+ * expect(findIndexOption(["a", "b"], (x) => x === "b").unwrap()).toBe(1);
+ * expect(findIndexOption(["a", "b"], (x) => x === "c").isNone).toBe(true);
+ * ```
+ */
+export const findIndexOption = <T>(
+  array: readonly T[],
+  predicate: (item: T, index: number) => boolean
+): Option<number> => {
+  const index = array.findIndex(predicate);
+  return index === -1 ? none : some(index);
+};
+
+/**
+ * Finds the item of a collection with the greatest key. Returns the first one of equal items.
+ *
+ * @example
+ * ```ts
+ * const oldest = maxBy(users, (user) => user.age);
+ * expect(maxBy([], (x: number) => x).isNone).toBe(true);
+ * ```
+ */
+export const maxBy = <T>(
+  items: Iterable<T>,
+  f: (item: T) => number
+): Option<T> => {
+  let found: Option<T> = none;
+  let max = -Infinity;
+  for (const item of items) {
+    const key = f(item);
+    if (found.isNone || key > max) {
+      found = some(item);
+      max = key;
+    }
+  }
+  return found;
+};
+
+/**
+ * Finds the item of a collection with the smallest key. Returns the first one of equal items.
+ *
+ * @example
+ * ```ts
+ * const youngest = minBy(users, (user) => user.age);
+ * expect(minBy([], (x: number) => x).isNone).toBe(true);
+ * ```
+ */
+export const minBy = <T>(
+  items: Iterable<T>,
+  f: (item: T) => number
+): Option<T> => {
+  let found: Option<T> = none;
+  let min = Infinity;
+  for (const item of items) {
+    const key = f(item);
+    if (found.isNone || key < min) {
+      found = some(item);
+      min = key;
+    }
+  }
+  return found;
+};
+
+/**
+ * Gets an own property of an object.
+ *
+ * @example
+ * ```ts
+ * const headers: Record<string, string> = { accept: "text/html" };
+ * expect(prop(headers, "accept").unwrap()).toBe("text/html");
+ * expect(prop(headers, "toString").isNone).toBe(true);
+ * ```
+ */
+export const prop = <T extends object, K extends keyof T>(
+  record: T,
+  key: K
+): Option<T[K]> =>
+  Object.prototype.hasOwnProperty.call(record, key) ? some(record[key]) : none;
+
+/**
+ * Lazily yields the values of the `Some`s of a sync or async iterable, skipping the `None`s.
+ *
+ * @example
+ * ```ts
+ * expect([...flattenOptions([some(1), none, some(2)])]).toEqual([1, 2]);
+ *
+ * for await (const user of flattenOptions(fetchUsers())) {
+ *   // ...
+ * }
+ * ```
+ */
+export function flattenOptions<T>(
+  options: Iterable<Option<T>>
+): IterableIterator<T>;
+export function flattenOptions<T>(
+  options: AsyncIterable<Option<T>>
+): AsyncIterableIterator<T>;
+export function flattenOptions<T>(
+  options: Iterable<Option<T>> | AsyncIterable<Option<T>>
+): IterableIterator<T> | AsyncIterableIterator<T> {
+  return lazyFlatMap(options, (option) => option.iter());
+}
+
+/**
+ * A `Map` with Option returning lookups.
+ *
+ * @example
+ * ```ts
+ * const users = new OptionMap([[1, { name: "John", age: 32 }]]);
+ * expect(users.get(1).map((user) => user.name).unwrap()).toBe("John");
+ * expect(users.get(2).isNone).toBe(true);
+ * ```
+ */
+export class OptionMap<K, V> implements Iterable<[K, V]> {
+  private readonly map: Map<K, V>;
+
+  constructor(entries?: Iterable<readonly [K, V]>) {
+    this.map = new Map(entries);
+  }
+
+  get size(): number {
+    return this.map.size;
+  }
+
+  /**
+   * Gets the value of a key, `None` if there is no entry for the key.
+   */
+  get(key: K): Option<V> {
+    return getOption(this.map, key);
+  }
+
+  has(key: K): boolean {
+    return this.map.has(key);
+  }
+
+  set(key: K, value: V): this {
+    this.map.set(key, value);
+    return this;
+  }
+
+  /**
+   * Removes the entry of a key and returns its value, `None` if there was no entry.
+   */
+  delete(key: K): Option<V> {
+    const value = this.get(key);
+    this.map.delete(key);
+    return value;
+  }
+
+  clear(): void {
+    this.map.clear();
+  }
+
+  /**
+   * Finds the first value that satisfies the predicate.
+   */
+  find(predicate: (value: V, key: K) => boolean): Option<V> {
+    return findOption(this.map, ([key, value]) => predicate(value, key)).map(
+      ([, value]) => value
+    );
+  }
+
+  /**
+   * Finds the key of the first value that satisfies the predicate.
+   */
+  findKey(predicate: (value: V, key: K) => boolean): Option<K> {
+    return findOption(this.map, ([key, value]) => predicate(value, key)).map(
+      ([key]) => key
+    );
+  }
+
+  /**
+   * Finds the value with the greatest key returned by `f`.
+   */
+  maxBy(f: (value: V) => number): Option<V> {
+    return maxBy(this.map.values(), f);
+  }
+
+  /**
+   * Finds the value with the smallest key returned by `f`.
+   */
+  minBy(f: (value: V) => number): Option<V> {
+    return minBy(this.map.values(), f);
+  }
+
+  keys(): IterableIterator<K> {
+    return this.map.keys();
+  }
+
+  values(): IterableIterator<V> {
+    return this.map.values();
+  }
+
+  entries(): IterableIterator<[K, V]> {
+    return this.map.entries();
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.map.entries();
+  }
+
+  /**
+   * Returns a copy of the entries as a plain `Map`.
+   */
+  toMap(): Map<K, V> {
+    return new Map(this.map);
+  }
+}
@@ -1,6 +1,23 @@
 import { describe, expect, expectTypeOf, test, vitest } from "vitest";
-import { Do, DoAsync, from, of, sequence } from "./fns";
-import { Option, none } from "./option";
+import {
+  Do,
+  DoAsync,
+  all,
+  allRecord,
+  any,
+  equals,
+  filterMap,
+  from,
+  fromSchema,
+  gen,
+  genAsync,
+  of,
+  sequence,
+  traverse,
+} from "./fns";
+import { Result, err, ok } from "../result/result";
+import { Option, none, some } from "./option";
+import { StandardSchemaV1 } from "../standardSchema";
 
 test("of", () => {
   expect(of(42).unwrap()).toBe(42);
@@ -48,6 +65,92 @@ test("Do", () => {
   expect(fn).toHaveBeenCalledTimes(1);
 });
 
+test("Do rethrows exceptions that don't come from bind", () => {
+  expect(() =>
+    Do(() => {
+      const a = some(1).bind();
+      throw new TypeError("a bug");
+      return some(a);
+    })
+  ).toThrow(TypeError);
+});
+
+test("Do rethrows the short-circuit of a nested Result bind as an error", () => {
+  const run = () =>
+    Do(() => {
+      const a = (err("not found") as Result<number, string>).bind();
+      return some(a);
+    });
+
+  expect(run).toThrow(Error);
+  expect(run).toThrow(
+    'called `Result.bind()` on an `Err` outside of a Result do block: "not found"'
+  );
+});
+
+test("Do catches bind on options of another copy of the package", async () => {
+  vitest.resetModules();
+  const copy = await import("./option");
+
+  expect(Do(() => some(copy.none.bind())).isNone).toBe(true);
+});
+
+test("DoAsync rethrows exceptions that don't come from bind", async () => {
+  await expect(
+    DoAsync(async () => {
+      throw new TypeError("a bug");
+    })
+  ).rejects.toThrow(TypeError);
+});
+
+test("DoAsync with a signal", async () => {
+  const controller = new AbortController();
+  const after = vitest.fn();
+
+  const res = DoAsync(
+    async (signal) => {
+      expect(signal).toBe(controller.signal);
+      await new Promise(() => {});
+      after();
+      return of(1);
+    },
+    { signal: controller.signal }
+  );
+  controller.abort();
+
+  expect((await res).isNone).toBe(true);
+  expect(after).not.toHaveBeenCalled();
+  expect(
+    (await DoAsync(async () => of(1), { signal: AbortSignal.abort() })).isNone
+  ).toBe(true);
+});
+
+test("DoAsync bind stops the block when the pending await resolves after the abort", async () => {
+  const controller = new AbortController();
+  let resolveUser = (_: Option<string>) => {};
+  const findUser = new Promise<Option<string>>((resolve) => {
+    resolveUser = resolve;
+  });
+  const findAvatar = vitest.fn(async (user: string) => some(`${user}.png`));
+
+  const res = DoAsync(
+    async (_, bind) => {
+      const user = await bind(findUser);
+      return findAvatar(user);
+    },
+    { signal: controller.signal }
+  );
+  controller.abort();
+  expect((await res).isNone).toBe(true);
+
+  resolveUser(some("John"));
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  expect(findAvatar).not.toHaveBeenCalled();
+  expect(
+    (await DoAsync(async (_, bind) => some(await bind(none)))).isNone
+  ).toBe(true);
+});
+
 test("Do async", async () => {
   const asyncFn = vitest.fn(async () => {
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -65,6 +168,59 @@ test("Do async", async () => {
   expect(asyncFn).toHaveBeenCalledTimes(1);
 });
 
+describe("gen", () => {
+  test("happy path", () => {
+    const res = gen(function* (bind) {
+      const a = yield* bind(some(1));
+      const b = yield* bind(of("2" as string | null));
+      return a + parseInt(b);
+    });
+
+    expectTypeOf(res).toEqualTypeOf<Option<number>>();
+    expect(res.unwrap()).toBe(3);
+  });
+
+  test("short-circuits on none", () => {
+    const fn = vitest.fn();
+
+    const res = gen(function* (bind) {
+      const a = yield* bind(some(1));
+      const b = yield* bind(none as Option<number>);
+      fn();
+      return a + b;
+    });
+
+    expect(res.isNone).toBe(true);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  test("genAsync", async () => {
+    const fn = vitest.fn();
+    const find = async (value: number | null) => {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      return of(value);
+    };
+
+    const res = await genAsync(async function* (bind) {
+      const a = yield* bind(await find(1));
+      const b = yield* bind(await find(2));
+      return a + b;
+    });
+
+    expectTypeOf(res).toEqualTypeOf<Option<number>>();
+    expect(res.unwrap()).toBe(3);
+
+    const failed = await genAsync(async function* (bind) {
+      const a = yield* bind(await find(null));
+      fn();
+      return a;
+    });
+
+    expect(failed.isNone).toBe(true);
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
+
 describe("sequence", () => {
   test("empty", () => {
     expect(sequence([]).unwrap()).toEqual([]);
@@ -78,3 +234,125 @@ describe("sequence", () => {
     expect(sequence([of(42), none, of(43)]).isNone).toBe(true);
   });
 });
+
+describe("all", () => {
+  test("keeps tuple types", () => {
+    const opt = all([some(1), some("a")]);
+
+    expectTypeOf(opt).toEqualTypeOf<Option<[number, string]>>();
+    expect(opt.unwrap()).toEqual([1, "a"]);
+  });
+
+  test("iterables", () => {
+    expect(all(new Set([some(1), some(2)])).unwrap()).toEqual([1, 2]);
+    expect(all(new Set([some(1), none])).isNone).toBe(true);
+  });
+
+  test("stops at the first None", () => {
+    const fn = vitest.fn(() => some(1));
+    function* options() {
+      yield none;
+      yield fn();
+    }
+
+    expect(all(options()).isNone).toBe(true);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  test("records", () => {
+    const opt = allRecord({ a: some(1), b: some("x") });
+
+    expectTypeOf(opt).toEqualTypeOf<Option<{ a: number; b: string }>>();
+    expect(opt.unwrap()).toEqual({ a: 1, b: "x" });
+    expect(allRecord({ a: some(1), b: none }).isNone).toBe(true);
+  });
+});
+
+test("any", () => {
+  expect(any([none, some(1), some(2)]).unwrap()).toBe(1);
+  expect(any([none, none]).isNone).toBe(true);
+  expect(any([]).isNone).toBe(true);
+});
+
+test("traverse", () => {
+  const map = new Map([
+    ["a", 1],
+    ["b", 2],
+  ]);
+  const fn = vitest.fn((key: string) => of(map.get(key)));
+
+  expect(traverse(["a", "b"], fn).unwrap()).toEqual([1, 2]);
+
+  fn.mockClear();
+  expect(traverse(["a", "c", "b"], fn).isNone).toBe(true);
+  expect(fn).toHaveBeenCalledTimes(2);
+});
+
+test("filterMap", () => {
+  const parse = (value: string) => {
+    const parsed = parseInt(value);
+    return isNaN(parsed) ? none : some(parsed);
+  };
+
+  expect(filterMap(["1", "a", "3"], parse)).toEqual([1, 3]);
+  expect(filterMap([], parse)).toEqual([]);
+});
+
+test("fromSchema", () => {
+  const positive: StandardSchemaV1<unknown, number> = {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: (value) =>
+        typeof value === "number" && value > 0
+          ? { value }
+          : { issues: [{ message: "Expected a positive number" }] },
+    },
+  };
+  const parse = fromSchema(positive);
+
+  expectTypeOf(parse(1)).toEqualTypeOf<Option<number>>();
+  expect(parse(1).unwrap()).toBe(1);
+  expect(parse(-1).isNone).toBe(true);
+  expect(parse("1").isNone).toBe(true);
+});
+
+describe("equals", () => {
+  test("variants", () => {
+    expect(equals(some(1), some(1))).toBe(true);
+    expect(equals(none, none)).toBe(true);
+    expect(equals(some(1), some(2))).toBe(false);
+    expect(equals(some(1), none)).toBe(false);
+    expect(equals(none, some(1))).toBe(false);
+  });
+
+  test("compares values structurally by default", () => {
+    expect(equals(some({ a: [1, { b: 2 }] }), some({ a: [1, { b: 2 }] }))).toBe(
+      true
+    );
+    expect(equals(some({ a: [1, { b: 2 }] }), some({ a: [1, { b: 3 }] }))).toBe(
+      false
+    );
+    expect(equals(some(new Date(0)), some(new Date(0)))).toBe(true);
+    expect(equals(some(new Map([[1, "a"]])), some(new Map([[1, "a"]])))).toBe(
+      true
+    );
+    expect(equals(some(new Set([1])), some(new Set([2])))).toBe(false);
+    expect(equals(some(new Error("a")), some(new Error("b")))).toBe(false);
+    expect(equals(some(NaN), some(NaN))).toBe(true);
+  });
+
+  test("nested options and results", () => {
+    expect(equals(some(ok(some(1))), some(ok(some(1))))).toBe(true);
+    expect(equals(some(ok(some(1))), some(ok(some(2))))).toBe(false);
+    expect(equals(some(ok(1)), some(err(1)))).toBe(false);
+  });
+
+  test("custom comparator", () => {
+    const sameLength = (a: string, b: string) => a.length === b.length;
+
+    expect(equals(some("abc"), some("xyz"), sameLength)).toBe(true);
+    expect(equals(some("abc"), some("xy"), sameLength)).toBe(false);
+    expect(equals(none as Option<string>, none, sameLength)).toBe(true);
+  });
+});
@@ -1,4 +1,9 @@
-import { Option, none, some } from "./option";
+import { AbortOptions, isAbort, neverAborted, raceAbort } from "../abort";
+import { deepEqual } from "../equal";
+import { ShortCircuit, isShortCircuit } from "../shortCircuit";
+import { Awaitable } from "../result/async";
+import { InferSchemaOutput, StandardSchemaV1 } from "../standardSchema";
+import { InferSome, Option, OptionYield, none, some } from "./option";
 
 /**
  * Converts a nullable value into an option.
@@ -33,9 +38,37 @@ export const from = <T>(fn: () => T | null | undefined): Option<T> => {
   }
 };
 
+/**
+ * Creates a parser from a schema that implements the Standard Schema interface
+ * (zod, valibot, arktype, ...). The parser returns the output of the schema,
+ * or none if the input is invalid.
+ * Throws a `TypeError` if the schema validates asynchronously.
+ *
+ * @example
+ * ```ts
+ * const parseAge = fromSchema(z.number().int().positive());
+ * expect(parseAge(42).unwrap()).toBe(42);
+ * expect(parseAge("42").isNone).toBe(true);
+ * ```
+ * @see
+ * `Result.fromSchema` keeps the issues.
+ */
+export const fromSchema =
+  <S extends StandardSchemaV1>(schema: S) =>
+  (input: unknown): Option<InferSchemaOutput<S>> => {
+    const result = schema["~standard"].validate(input);
+    if (result instanceof Promise) {
+      throw new TypeError("Schema validation must be synchronous");
+    }
+    return result.issues ? none : some(result.value as InferSchemaOutput<S>);
+  };
+
 /**
    * Lets you simulate a do-notation known from functional languages
    * with the Option monad.
+   *
+   * Calling `bind` on `none` stops the block and `none` is returned.
+   * Any other exception thrown inside of the block is rethrown.
    * 
    * @example
      expect(
@@ -52,19 +85,279 @@ export const from = <T>(fn: () => T | null | undefined): Option<T> => {
 export function Do<T>(fn: () => Option<T>): Option<T> {
   try {
     return fn();
-  } catch (_) {
-    return none;
+  } catch (e) {
+    if (isShortCircuit(e, "none")) {
+      return none;
+    }
+    throw e;
   }
 }
+
+/**
+ * The `bind` passed to the block of `DoAsync`. It awaits the option and
+ * returns its inner value like `Option.bind`, but once the signal of the block
+ * is aborted it stops the block instead, so the steps after it don't run.
+ */
+export type BindAsync = <T>(option: Awaitable<Option<T>>) => Promise<T>;
+
+const bindAsync =
+  (signal: AbortSignal): BindAsync =>
+  async (option) => {
+    const awaited = await option;
+    if (signal.aborted) {
+      throw new ShortCircuit("none");
+    }
+    return awaited.bind();
+  };
+
+/**
+ * `Do` for async blocks. With a `signal`, aborting it resolves the block to
+ * `None` right away, without waiting for the pending `await`. The block gets
+ * the signal, to forward it to `fetch` and other async helpers, and a `bind`
+ * that stops the block at the next step once the signal is aborted, even if
+ * the pending `await` resolves later. An `AbortError` thrown by the helpers
+ * becomes `None` too.
+ *
+ * @example
+ * ```ts
+ * const avatar = await DoAsync(
+ *   async (signal, bind) => {
+ *     const user = await bind(findUser(id, { signal }));
+ *     return findAvatar(user.avatarId, { signal });
+ *   },
+ *   { signal }
+ * );
+ * ```
+ */
 export async function DoAsync<T>(
-  fn: () => Promise<Option<T>>
+  fn: (signal: AbortSignal, bind: BindAsync) => Promise<Option<T>>,
+  { signal = neverAborted() }: AbortOptions = {}
 ): Promise<Option<T>> {
-  try {
-    return await fn();
-  } catch {
+  if (signal.aborted) {
     return none;
   }
+  try {
+    return await raceAbort(fn(signal, bindAsync(signal)), signal);
+  } catch (e) {
+    if (isShortCircuit(e, "none") || isAbort(e, signal)) {
+      return none;
+    }
+    throw e;
+  }
+}
+
+/**
+ * The `bind` passed to the block of `gen` and `genAsync`. Use it with `yield*`
+ * to get the inner value of an option, a `None` stops the block.
+ */
+export type GenBind = <T>(
+  option: Option<T>
+) => Generator<OptionYield<T>, T, any>;
+
+const genBind: GenBind = function* (option) {
+  return yield option.isSome
+    ? { variant: "some", value: option.value }
+    : { variant: "none" };
+};
+
+/**
+ * Lets you simulate a do-notation with generator functions.
+ * Inside of the block use `yield* bind(option)` to access the inner value of an option.
+ * If any of the bound options is `None`, the block stops and `None`
+ * is returned. The returned value of the block is wrapped in `Some`.
+ *
+ * @example
+ * ```ts
+ * const res = gen(function* (bind) {
+ *   const a = yield* bind(some(1));
+ *   const b = yield* bind(of(map.get("b")));
+ *   return a + b;
+ * });
+ * ```
+ */
+export function gen<T>(
+  fn: (bind: GenBind) => Generator<OptionYield<any>, T, any>
+): Option<T> {
+  const iterator = fn(genBind);
+  let state = iterator.next();
+  while (!state.done) {
+    const option = state.value;
+    if (option.variant === "none") {
+      iterator.return(undefined as T);
+      return none;
+    }
+    state = iterator.next(option.value);
+  }
+  return some(state.value);
 }
 
-export const sequence = <T>(options: Option<T>[]): Option<T[]> =>
-  Do(() => some(options.map((option) => option.bind())));
+/**
+ * Async version of {@link gen}. The block is an `async function*`,
+ * so promises can be awaited in between the `yield*`s.
+ *
+ * @example
+ * ```ts
+ * const res = await genAsync(async function* (bind) {
+ *   const user = yield* bind(await findUser(id));
+ *   const nickname = yield* bind(of(user.nickname));
+ *   return nickname;
+ * });
+ * ```
+ */
+export async function genAsync<T>(
+  fn: (bind: GenBind) => AsyncGenerator<OptionYield<any>, T, any>
+): Promise<Option<T>> {
+  const iterator = fn(genBind);
+  let state = await iterator.next();
+  while (!state.done) {
+    const option = state.value;
+    if (option.variant === "none") {
+      await iterator.return(undefined as T);
+      return none;
+    }
+    state = await iterator.next(option.value);
+  }
+  return some(state.value);
+}
+
+/**
+ * Turns a collection of options into an option of the collection of their values.
+ * Returns `None` if there is any `None`. Tuples keep their types.
+ *
+ * @example
+ * ```ts
+ * const opt = all([some(1), some("a")]);
+ * // opt: Option<[number, string]>
+ * expect(opt.unwrap()).toEqual([1, "a"]);
+ * expect(all(new Set([some(1), none])).isNone).toBe(true);
+ * ```
+ */
+export function all<O extends readonly Option<any>[] | []>(
+  options: O
+): Option<{ -readonly [K in keyof O]: InferSome<O[K]> }>;
+export function all<T>(options: Iterable<Option<T>>): Option<T[]>;
+export function all(options: Iterable<Option<any>>): Option<any[]> {
+  const values: any[] = [];
+  for (const option of options) {
+    if (option.isNone) {
+      return none;
+    }
+    values.push(option.value);
+  }
+  return some(values);
+}
+
+/**
+ * @alias all
+ */
+export const sequence = all;
+
+/**
+ * Turns a record of options into an option of a record of their values.
+ * Returns `None` if there is any `None`.
+ *
+ * @example
+ * ```ts
+ * const opt = allRecord({ a: some(1), b: some("x") });
+ * expect(opt.unwrap()).toEqual({ a: 1, b: "x" });
+ * ```
+ */
+export const allRecord = <O extends Record<string, Option<any>>>(
+  options: O
+): Option<{ [K in keyof O]: InferSome<O[K]> }> => {
+  const values: Record<string, unknown> = {};
+  for (const key of Object.keys(options)) {
+    const option = options[key];
+    if (option.isNone) {
+      return none;
+    }
+    values[key] = option.value;
+  }
+  return some(values as { [K in keyof O]: InferSome<O[K]> });
+};
+
+/**
+ * Returns the first `Some` of the collection, or `None` if there is none.
+ *
+ * @example
+ * ```ts
+ * expect(any([none, some(1), some(2)]).unwrap()).toBe(1);
+ * expect(any([none, none]).isNone).toBe(true);
+ * ```
+ */
+export const any = <T>(options: Iterable<Option<T>>): Option<T> => {
+  for (const option of options) {
+    if (option.isSome) {
+      return option;
+    }
+  }
+  return none;
+};
+
+/**
+ * Maps every item of a collection to an option and collects their values.
+ * Stops at the first `None` and returns `None`.
+ *
+ * @example
+ * ```ts
+ * const opt = traverse(["a", "b"], (key) => of(map.get(key)));
+ * ```
+ */
+export const traverse = <A, T>(
+  items: Iterable<A>,
+  f: (item: A, index: number) => Option<T>
+): Option<T[]> => {
+  const values: T[] = [];
+  let index = 0;
+  for (const item of items) {
+    const option = f(item, index++);
+    if (option.isNone) {
+      return none;
+    }
+    values.push(option.value);
+  }
+  return some(values);
+};
+
+/**
+ * Maps every item of a collection to an option and keeps only the values of the `Some`s.
+ *
+ * @example
+ * ```ts
+ * const numbers = filterMap(["1", "a", "3"], (value) => safeParseInt(value));
+ * expect(numbers).toEqual([1, 3]);
+ * ```
+ */
+export const filterMap = <A, T>(
+  items: Iterable<A>,
+  f: (item: A, index: number) => Option<T>
+): T[] => {
+  const values: T[] = [];
+  let index = 0;
+  for (const item of items) {
+    const option = f(item, index++);
+    if (option.isSome) {
+      values.push(option.value);
+    }
+  }
+  return values;
+};
+
+/**
+ * Compares two options. They are equal if both are `None`, or both are `Some`
+ * and their values are equal according to `eq`. By default values are
+ * compared structurally.
+ *
+ * @example
+ * ```ts
+ * expect(equals(some({ a: 1 }), some({ a: 1 }))).toBe(true)
+ * expect(equals(some(1), none)).toBe(false)
+ * expect(equals(some("a"), some("A"), (a, b) => a.toLowerCase() === b.toLowerCase())).toBe(true)
+ * ```
+ */
+export const equals = <T>(
+  a: Option<T>,
+  b: Option<T>,
+  eq: (a: T, b: T) => boolean = deepEqual
+): boolean =>
+  a.isSome && b.isSome ? eq(a.value, b.value) : a.isNone && b.isNone;
@@ -1,2 +1,11 @@
 export * from "./option";
 export * from "./fns";
+export * from "./async";
+export * from "./pipeable";
+export * from "./collections";
+export type { AbortOptions } from "../abort";
+export { optionFromJSON as fromJSON, reviver } from "../json";
+export { pipe, flow } from "../pipe";
+export { matchWith, P } from "../match";
+export type { Matcher, Pattern, Wildcard } from "../match";
+export type { InferSchemaOutput, StandardSchemaV1 } from "../standardSchema";
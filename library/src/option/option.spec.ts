@@ -1,6 +1,19 @@
 import { describe, expect, expectTypeOf, it, test, vitest } from "vitest";
-
-import { NoneVariant, Option, SomeVariant, none, some } from "./option";
+import { inspect } from "node:util";
+
+import {
+  None,
+  NoneVariant,
+  Option,
+  Some,
+  SomeVariant,
+  isNone,
+  isOption,
+  isSome,
+  none,
+  some,
+} from "./option";
+import { Result, err, ok } from "../result/result";
 
 describe("Option", () => {
   const someVariant = some(42);
@@ -253,6 +266,231 @@ describe("Option", () => {
     expect(noneVariant.filter((d) => d === 3).isNone).toBe(true);
   });
 
+  test("filterMap", () => {
+    const map = new Map([["a", 1]]);
+
+    expect(
+      some("a")
+        .filterMap((key) => map.get(key))
+        .unwrap()
+    ).toBe(1);
+    expect(some("b").filterMap((key) => map.get(key)).isNone).toBe(true);
+    expect(some(1).filterMap(() => null).isNone).toBe(true);
+    expect(
+      some(1)
+        .filterMap(() => 0)
+        .unwrap()
+    ).toBe(0);
+    expect((none as Option<string>).filterMap((key) => key).isNone).toBe(true);
+  });
+
+  test("isNoneOr", () => {
+    expect(someVariant.isNoneOr((x) => x > 10)).toBe(true);
+    expect(someVariant.isNoneOr((x) => x > 100)).toBe(false);
+    expect(noneVariant.isNoneOr((x) => x > 100)).toBe(true);
+  });
+
+  test("peek", () => {
+    const fn = vitest.fn();
+
+    expect(
+      someVariant
+        .peek(fn)
+        .map((x) => x + 1)
+        .unwrap()
+    ).toBe(43);
+    expect(noneVariant.peek(fn).isNone).toBe(true);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(fn).toHaveBeenCalledWith(42);
+  });
+
+  test("unwrapOrDefault", () => {
+    expect(someVariant.unwrapOrDefault(Number)).toBe(42);
+    expect(noneVariant.unwrapOrDefault(Number)).toBe(0);
+    expect((none as Option<string>).unwrapOrDefault(String)).toBe("");
+    expect((none as Option<boolean>).unwrapOrDefault(Boolean)).toBe(false);
+    expect((none as Option<number[]>).unwrapOrDefault(Array)).toEqual([]);
+  });
+
+  test("zip and zipWith", () => {
+    const zipped = someVariant.zip(some("a"));
+
+    expectTypeOf(zipped).toEqualTypeOf<Option<[number, string]>>();
+    expect(zipped.unwrap()).toEqual([42, "a"]);
+    expect(someVariant.zip(none).isNone).toBe(true);
+    expect(noneVariant.zip(some("a")).isNone).toBe(true);
+    expect(someVariant.zipWith(some(1), (a, b) => a + b).unwrap()).toBe(43);
+    expect(noneVariant.zipWith(some(1), (a, b) => a + b).isNone).toBe(true);
+  });
+
+  test("unzip", () => {
+    const [a, b] = some([1, "a"] as [number, string]).unzip();
+
+    expectTypeOf(a).toEqualTypeOf<Option<number>>();
+    expect(a.unwrap()).toBe(1);
+    expect(b.unwrap()).toBe("a");
+
+    const [c, d] = (none as Option<[number, string]>).unzip();
+    expect(c.isNone && d.isNone).toBe(true);
+  });
+
+  test("xor", () => {
+    expect(someVariant.xor(none).unwrap()).toBe(42);
+    expect(noneVariant.xor(some(1)).unwrap()).toBe(1);
+    expect(someVariant.xor(some(1)).isNone).toBe(true);
+    expect(noneVariant.xor(none).isNone).toBe(true);
+  });
+
+  test("flatten", () => {
+    const nested = some(some(1));
+
+    expectTypeOf(nested.flatten()).toEqualTypeOf<Option<number>>();
+    expect(nested.flatten().unwrap()).toBe(1);
+    // @ts-expect-error flatten is only available on nested options
+    some(1).flatten();
+    expect(some(none).flatten().isNone).toBe(true);
+    expect((none as Option<Option<number>>).flatten().isNone).toBe(true);
+  });
+
+  test("transpose", () => {
+    const found = some(ok(1)) as Option<Result<number, string>>;
+    const transposed = found.transpose();
+    expectTypeOf(transposed).toEqualTypeOf<Result<Option<number>, string>>();
+    expect(transposed.unwrap().unwrap()).toBe(1);
+    expect(some(err("error")).transpose().unwrapErr()).toBe("error");
+    expect(none.transpose().unwrap().isNone).toBe(true);
+    // @ts-expect-error transpose is only available on options of results
+    () => some(1).transpose();
+  });
+
+  test("instanceof", () => {
+    expect(someVariant).toBeInstanceOf(Some);
+    expect(noneVariant).toBeInstanceOf(None);
+    expect(someVariant).not.toBeInstanceOf(None);
+    expect(some(1)).not.toEqual(some(2));
+    expect(some(1)).not.toEqual(ok(1));
+  });
+
+  test("methods are shared", () => {
+    expect(some(1).map).toBe(some(2).map);
+    expect(Object.keys(some(1)).sort()).toEqual(["value", "variant"]);
+
+    // methods need to be called on the option, they aren't bound to it
+    const { unwrap } = some(1);
+    expect(() => unwrap()).toThrow(TypeError);
+  });
+
+  test("structuredClone", () => {
+    expect(structuredClone(some(1))).toEqual({ variant: "some", value: 1 });
+  });
+
+  test("isOption", () => {
+    expect(isOption(someVariant)).toBe(true);
+    expect(isOption(noneVariant)).toBe(true);
+    expect(isOption({ variant: "some", value: 42 })).toBe(false);
+    expect(isOption(ok(42))).toBe(false);
+    expect(isOption(null)).toBe(false);
+    expect(isOption(42)).toBe(false);
+  });
+
+  test("isSome and isNone", () => {
+    const value: unknown = someVariant;
+
+    if (isSome(value)) {
+      expectTypeOf(value).toEqualTypeOf<SomeVariant<unknown>>();
+    }
+    if (isSome(noneVariant)) {
+      expectTypeOf(noneVariant).toEqualTypeOf<SomeVariant<number>>();
+    }
+
+    expect(isSome(value)).toBe(true);
+    expect(isSome(noneVariant)).toBe(false);
+    expect(isSome({ variant: "some", value: 42 })).toBe(false);
+    expect(isNone(noneVariant)).toBe(true);
+    expect(isNone(someVariant)).toBe(false);
+    expect(isNone(undefined)).toBe(false);
+  });
+
+  test("guards and equals recognize options of another copy of the package", async () => {
+    vitest.resetModules();
+    const copy = await import("./option");
+    const { equals } = await import("./fns");
+
+    expect(copy.Some).not.toBe(Some);
+    expect(isOption(copy.some(42))).toBe(true);
+    expect(isSome(copy.some(42))).toBe(true);
+    expect(isNone(copy.none)).toBe(true);
+    expect(isNone(copy.some(42))).toBe(false);
+    expect(equals(some({ a: [1] }), copy.some({ a: [1] }))).toBe(true);
+    expect(equals(none, copy.none)).toBe(true);
+  });
+
+  test("iter", () => {
+    expect([...some(42).iter()]).toEqual([42]);
+    expect([...none.iter()]).toEqual([]);
+    expect(Array.from(some(42).iter())).toEqual([42]);
+
+    const values: number[] = [];
+    for (const value of some(42).iter()) {
+      values.push(value);
+    }
+    expect(values).toEqual([42]);
+  });
+
+  test("iterating", () => {
+    expect([...some(1)]).toEqual([1]);
+    expect([...none]).toEqual([]);
+    expect(Array.from(some("a"))).toEqual(["a"]);
+    expectTypeOf([...(some(1) as Option<number>)]).toEqualTypeOf<number[]>();
+
+    const values: number[] = [];
+    for (const value of some(1)) {
+      values.push(value);
+    }
+    for (const value of none as Option<number>) {
+      values.push(value);
+    }
+    expect(values).toEqual([1]);
+  });
+
+  test("toString", () => {
+    expect(String(some(42))).toBe("Some(42)");
+    expect(`${none}`).toBe("None");
+    expect(some("a").toString()).toBe('Some("a")');
+    expect(String(some(some([1, none])))).toBe("Some(Some([1, None]))");
+    expect(String(some({ user: ok({ name: "John" }) }))).toBe(
+      'Some({ user: Ok({ name: "John" }) })'
+    );
+    expect(Object.prototype.toString.call(some(1))).toBe("[object Some]");
+    expect(Object.prototype.toString.call(none)).toBe("[object None]");
+  });
+
+  test("toString detects cycles through options", () => {
+    const cyclic: { self?: unknown } = {};
+    cyclic.self = some(cyclic);
+    expect(String(cyclic.self)).toBe("Some({ self: Some([Circular]) })");
+    expect(String(some([ok(cyclic)]))).toBe(
+      "Some([Ok({ self: Some([Circular]) })])"
+    );
+  });
+
+  test("util.inspect", () => {
+    expect(inspect(some(42))).toBe("Some(42)");
+    expect(inspect(none)).toBe("None");
+    expect(inspect({ a: some({ b: [some("c")] }) })).toBe(
+      "{ a: Some({ b: [ Some('c') ] }) }"
+    );
+    expect(inspect(some({ a: { b: 1 } }), { depth: 0 })).toBe(
+      "Some({ a: [Object] })"
+    );
+
+    const cyclic: { self?: unknown } = {};
+    cyclic.self = some(cyclic);
+    expect(inspect(cyclic.self, { depth: null })).toBe(
+      "Some({ self: [Circular] })"
+    );
+  });
+
   test("variance", () => {
     type A = { variant: "a"; value: number } | { variant: "b"; val: string };
 
@@ -1,4 +1,13 @@
-import { Result, err, ok } from "../result";
+import { Result, err, ok } from "../result/result";
+import {
+  Inspect,
+  InspectOptions,
+  display,
+  inspectCustom,
+  inspectVariant,
+} from "../format";
+import { ShortCircuit } from "../shortCircuit";
+import { hasBrand, optionBrand } from "../brand";
 
 export type NoneVariant<T> = {
   readonly variant: "none";
@@ -15,6 +24,36 @@ export type SomeVariant<T> = {
 
 export type Option<T> = NoneVariant<T> | SomeVariant<T>;
 
+/**
+ * Extracts the inner type of an Option type.
+ *
+ * @example
+ * ```ts
+ * type A = InferSome<Option<number>>; // number
+ * ```
+ */
+export type InferSome<O> = O extends { unwrap: () => infer T } ? T : never;
+
+/**
+ * The JSON representation of an option, returned by `toJSON`.
+ *
+ * @example
+ * ```ts
+ * JSON.stringify(some(42)); // {"$type":"Option","variant":"some","value":42}
+ * JSON.stringify(none); // {"$type":"Option","variant":"none"}
+ * ```
+ */
+export type OptionJSON<T = unknown> =
+  | { readonly $type: "Option"; readonly variant: "some"; readonly value: T }
+  | { readonly $type: "Option"; readonly variant: "none" };
+
+/**
+ * What the `bind` of a `gen` block yields for an option.
+ */
+export type OptionYield<T> =
+  | { readonly variant: "some"; readonly value: T }
+  | { readonly variant: "none" };
+
 type OptionProperties<T> = {
   /**
    *  Property that is `true` if the option is a `Some` variant and `false` otherwise.
@@ -137,7 +176,25 @@ type OptionProperties<T> = {
    */
   mapOrElse: <U>(defaultValueFun: () => U, f: (arg: T) => U) => U;
 
+  /**
+   * Converts the option into a result, mapping `None` to `Err(err)`.
+   *
+   * @example
+   * ```ts
+   * expect(some(42).okOr("missing").unwrap()).toBe(42)
+   * expect(none.okOr("missing").unwrapErr()).toBe("missing")
+   * ```
+   */
   okOr: <E>(err: E) => Result<T, E>;
+
+  /**
+   * Converts the option into a result, mapping `None` to `Err(f())`.
+   *
+   * @example
+   * ```ts
+   * expect(none.okOrElse(() => "missing").unwrapErr()).toBe("missing")
+   * ```
+   */
   okOrElse: <E>(f: () => E) => Result<T, E>;
 
   /**
@@ -229,6 +286,125 @@ type OptionProperties<T> = {
    */
   filter: (predicate: (arg: T) => boolean) => Option<T>;
 
+  /**
+   * Maps the inner value and returns `None` if the result is `null` or `undefined`.
+   *
+   * @example
+   * ```ts
+   * expect(some("a").filterMap((key) => map.get(key)).isNone).toBe(true)
+   * expect(some({ name: "John" }).filterMap((user) => user.name).unwrap()).toBe("John")
+   * ```
+   */
+  filterMap: <U>(f: (value: T) => U | null | undefined) => Option<U>;
+
+  /**
+   * Returns `true` if the option is `None` or the predicate returns `true` for the inner value.
+   *
+   * @example
+   * ```ts
+   * expect(some(42).isNoneOr((x) => x > 10)).toBe(true)
+   * expect(some(1).isNoneOr((x) => x > 10)).toBe(false)
+   * expect(none.isNoneOr((x) => x > 10)).toBe(true)
+   * ```
+   */
+  isNoneOr: (predicate: (value: T) => boolean) => boolean;
+
+  /**
+   * Calls the function with the inner value if the option is `Some` and returns the option,
+   * so unlike `tap` it can be chained.
+   *
+   * @example
+   * ```ts
+   * some(42).peek((x) => console.log(x)).map((x) => x + 1)
+   * ```
+   */
+  peek: (f: (value: T) => void) => Option<T>;
+
+  /**
+   * Returns the inner value or the default value of a type, created by calling
+   * `type` e.g. `String` (""), `Number` (0), `Boolean` (false), `Array` ([]) or `Object` ({}).
+   *
+   * @example
+   * ```ts
+   * expect(none.unwrapOrDefault(Number)).toBe(0)
+   * expect(none.unwrapOrDefault(String)).toBe("")
+   * expect(some(42).unwrapOrDefault(Number)).toBe(42)
+   * ```
+   */
+  unwrapOrDefault: <T1 extends T>(type: () => T1) => T;
+
+  /**
+   * Zips the option with another option. Returns `Some` with a tuple of both
+   * values if both are `Some`, otherwise `None`.
+   *
+   * @example
+   * ```ts
+   * expect(some(1).zip(some("a")).unwrap()).toEqual([1, "a"])
+   * expect(some(1).zip(none).isNone).toBe(true)
+   * ```
+   */
+  zip: <U>(other: Option<U>) => Option<[T, U]>;
+
+  /**
+   * Zips the option with another option using a function. Returns `Some` with the result
+   * of the function if both options are `Some`, otherwise `None`.
+   *
+   * @example
+   * ```ts
+   * expect(some(1).zipWith(some(2), (a, b) => a + b).unwrap()).toBe(3)
+   * ```
+   */
+  zipWith: <U, R>(other: Option<U>, f: (value: T, other: U) => R) => Option<R>;
+
+  /**
+   * Unzips an option of a tuple into a tuple of options.
+   *
+   * @example
+   * ```ts
+   * const [a, b] = some([1, "a"] as [number, string]).unzip();
+   * expect(a.unwrap()).toBe(1)
+   * expect(b.unwrap()).toBe("a")
+   * ```
+   */
+  unzip: <A, B>(this: Option<[A, B]>) => [Option<A>, Option<B>];
+
+  /**
+   * Returns `Some` if exactly one of the options is `Some`, otherwise `None`.
+   *
+   * @example
+   * ```ts
+   * expect(some(1).xor(none).unwrap()).toBe(1)
+   * expect(none.xor(some(2)).unwrap()).toBe(2)
+   * expect(some(1).xor(some(2)).isNone).toBe(true)
+   * ```
+   */
+  xor: <T1 extends T>(other: Option<T1>) => Option<T>;
+
+  /**
+   * Removes one level of nesting from an option of an option.
+   *
+   * @example
+   * ```ts
+   * expect(some(some(1)).flatten().unwrap()).toBe(1)
+   * expect(some(none).flatten().isNone).toBe(true)
+   * ```
+   */
+  flatten: <U>(this: Option<Option<U>>) => Option<U>;
+
+  /**
+   * Transposes an option of a result into a result of an option.
+   * `None` becomes `Ok(None)`, `Some(Ok(x))` becomes `Ok(Some(x))`
+   * and `Some(Err(e))` becomes `Err(e)`.
+   *
+   * @example
+   * ```ts
+   * expect(some(ok(1)).transpose().unwrap().unwrap()).toBe(1)
+   * expect(some(err("error")).transpose().unwrapErr()).toBe("error")
+   * expect(none.transpose().unwrap().isNone).toBe(true)
+   * ```
+   */
+  transpose: <U, E>(this: Option<Result<U, E>>) => Result<Option<U>, E>;
+
   /**
    * 
    * @example
@@ -252,134 +428,433 @@ type OptionProperties<T> = {
 
   bind: () => T;
   b: () => T;
-};
 
-const noneHandler: ProxyHandler<Option<any>> = {
-  get: (_, prop) => {
-    switch (prop) {
-      case "variant":
-        return "none";
-      case "isSome":
-        return false;
-      case "isNone":
-        return true;
-      case "isSomeAnd":
-        return () => false;
-      case "expect":
-        return (message: any) => {
-          throw new Error(`Error: ${message}`);
-        };
-      case "unwrap":
-        return () => {
-          throw new Error("Error: called `.unwrap()` on none");
-        };
-      case "unwrapOr":
-        return <T>(defaultValue: T) => defaultValue;
-      case "unwrapOrElse":
-        return <T>(getDefaultValue: () => T) => getDefaultValue();
-      case "map":
-        return () => none;
-      case "mapOr":
-        return (defaultValue: any) => defaultValue;
-      case "mapOrElse":
-        return (defaultValue: any) => defaultValue();
-      case "and":
-        return () => none;
-      case "flatMap":
-        return () => none;
-      case "andThen":
-        return () => none;
-      case "filter":
-        return () => none;
-      case "okOr":
-        return (error: any) => err(error);
-      case "okOrElse":
-        return (error: any) => err(error());
-      case "or":
-        return (b: any) => b;
-      case "orElse":
-        return (f: any) => f();
-      case "tap":
-        return <F extends void | Promise<void>>(f: (_: any) => F): F => {
-          return undefined as any;
-        };
-      case "match":
-        return (pattern: any) => pattern.none();
-      case "bind":
-        return () => {
-          throw "bind";
-        };
-      case "b":
-        return () => {
-          throw "bind";
-        };
-    }
-  },
-};
+  /**
+   * Makes the option iterable over its inner value: it iterates once
+   * with the value for some and never for none.
+   *
+   * @example
+   * ```ts
+   * expect([...some(1)]).toEqual([1]);
+   * expect([...none]).toEqual([]);
+   * ```
+   */
+  [Symbol.iterator]: () => IterableIterator<T>;
 
-export const none: Option<any> = new Proxy(
-  { variant: "none" } as Option<any>,
-  noneHandler
-);
-
-const someHandler: ProxyHandler<Option<any>> = {
-  get: (target, prop) => {
-    const { value } = target as SomeVariant<any>;
-    const flatMap = <U>(f: (value: any) => Option<U>): Option<U> => f(value);
-    const unwrap = (): any => value;
-
-    switch (prop) {
-      case "variant":
-        return "some";
-      case "value":
-        return value;
-      case "isSome":
-        return true;
-      case "isSomeAnd":
-        return (predicate: any) => predicate(value);
-      case "isNone":
-        return false;
-      case "expect":
-        return unwrap;
-      case "unwrap":
-        return unwrap;
-      case "unwrapOr":
-        return unwrap;
-      case "unwrapOrElse":
-        return unwrap;
-      case "map":
-        return (f: any) => some(f(value));
-      case "mapOr":
-        return (_: any, f: any) => f(value);
-      case "mapOrElse":
-        return (defaultValue: any, f: any) => f(value);
-      case "and":
-        return (b: any) => b;
-      case "flatMap":
-        return flatMap;
-      case "andThen":
-        return flatMap;
-      case "filter":
-        return (predicate: any) => (predicate(value) ? some(value) : none);
-      case "or":
-        return () => some(value);
-      case "okOr":
-        return () => ok(value);
-      case "okOrElse":
-        return () => ok(value);
-      case "orElse":
-        return () => some(value);
-      case "tap":
-        return (f: any) => f(value);
-      case "match":
-        return (pattern: any) => pattern.some(value);
-      case "bind":
-        return unwrap;
-      case "b":
-        return unwrap;
-    }
-  },
+  /**
+   * Returns an iterator over the inner value, it yields once for some
+   * and never for none, like iterating over the option itself.
+   *
+   * @example
+   * ```ts
+   * expect([...some(1).iter()]).toEqual([1]);
+   * expect([...none.iter()]).toEqual([]);
+   * ```
+   */
+  iter: () => IterableIterator<T>;
+
+  /**
+   * Returns the JSON representation of the option, it's called by `JSON.stringify`.
+   * Use `reviver` or `fromJSON` to turn it back into an option.
+   *
+   * @example
+   * ```ts
+   * expect(JSON.stringify(some(42))).toBe('{"$type":"Option","variant":"some","value":42}')
+   * ```
+   */
+  toJSON: () => OptionJSON<T>;
+
+  /**
+   * Returns a readable representation of the option, e.g. `Some(42)` or `None`.
+   * Node's `util.inspect` and `console.log` render options the same way.
+   *
+   * @example
+   * ```ts
+   * expect(String(some(ok("a")))).toBe('Some(Ok("a"))')
+   * expect(`${none}`).toBe("None")
+   * ```
+   */
+  toString: () => string;
 };
 
-export const some = <T>(value: T): Option<T> =>
-  new Proxy({ variant: "some", value } as Option<T>, someHandler);
+/**
+ * The `None` variant of an option. There is only one instance, `none`.
+ */
+export class None<T = any> implements NoneVariant<T> {
+  readonly variant = "none";
+
+  get isSome(): false {
+    return false;
+  }
+
+  get isNone(): true {
+    return true;
+  }
+
+  isSomeAnd(): boolean {
+    return false;
+  }
+
+  expect(message: string): T {
+    throw new Error(`Error: ${message}`);
+  }
+
+  unwrap(): T {
+    throw new Error("Error: called `.unwrap()` on none");
+  }
+
+  unwrapOr<T1 extends T>(defaultValue: T1): T {
+    return defaultValue;
+  }
+
+  unwrapOrElse<T1 extends T>(defaultValueFun: () => T1): T {
+    return defaultValueFun();
+  }
+
+  map<U>(): Option<U> {
+    return none;
+  }
+
+  mapOr<U>(defaultValue: U): U {
+    return defaultValue;
+  }
+
+  mapOrElse<U>(defaultValueFun: () => U): U {
+    return defaultValueFun();
+  }
+
+  okOr<E>(error: E): Result<T, E> {
+    return err(error);
+  }
+
+  okOrElse<E>(f: () => E): Result<T, E> {
+    return err(f());
+  }
+
+  and<U>(): Option<U> {
+    return none;
+  }
+
+  or<T1 extends T>(b: Option<T1>): Option<T> {
+    return b;
+  }
+
+  orElse<T1 extends T>(f: () => Option<T1>): Option<T> {
+    return f();
+  }
+
+  flatMap<U>(): Option<U> {
+    return none;
+  }
+
+  andThen<U>(): Option<U> {
+    return none;
+  }
+
+  tap<F extends void | Promise<void>>(): F {
+    return undefined as F;
+  }
+
+  filter(): Option<T> {
+    return none;
+  }
+
+  filterMap<U>(): Option<U> {
+    return none;
+  }
+
+  isNoneOr(): boolean {
+    return true;
+  }
+
+  peek(): Option<T> {
+    return none;
+  }
+
+  unwrapOrDefault<T1 extends T>(type: () => T1): T {
+    return type();
+  }
+
+  zip<U>(): Option<[T, U]> {
+    return none;
+  }
+
+  zipWith<U, R>(): Option<R> {
+    return none;
+  }
+
+  unzip<A, B>(): [Option<A>, Option<B>] {
+    return [none, none];
+  }
+
+  xor<T1 extends T>(other: Option<T1>): Option<T> {
+    return other.isSome ? other : none;
+  }
+
+  flatten<U>(): Option<U> {
+    return none;
+  }
+
+  transpose<U, E>(): Result<Option<U>, E> {
+    return ok(none);
+  }
+
+  match<U>(pattern: { some: (value: T) => U; none: () => U }): U {
+    return pattern.none();
+  }
+
+  bind(): T {
+    throw new ShortCircuit("none");
+  }
+
+  b(): T {
+    throw new ShortCircuit("none");
+  }
+
+  [Symbol.iterator](): IterableIterator<T> {
+    return this.iter();
+  }
+
+  *iter(): IterableIterator<T> {}
+
+  toJSON(): OptionJSON<T> {
+    return { $type: "Option", variant: "none" };
+  }
+
+  toString(): string {
+    return "None";
+  }
+
+  get [Symbol.toStringTag](): string {
+    return "None";
+  }
+
+  get [optionBrand](): true {
+    return true;
+  }
+
+  [inspectCustom](): string {
+    return "None";
+  }
+}
+
+/**
+ * The `Some` variant of an option, created with `some`.
+ */
+export class Some<T> implements SomeVariant<T> {
+  readonly variant = "some";
+
+  constructor(readonly value: T) {}
+
+  get isSome(): true {
+    return true;
+  }
+
+  get isNone(): false {
+    return false;
+  }
+
+  isSomeAnd(predicate: (value: T) => boolean): boolean {
+    return predicate(this.value);
+  }
+
+  expect(): T {
+    return this.value;
+  }
+
+  unwrap(): T {
+    return this.value;
+  }
+
+  unwrapOr(): T {
+    return this.value;
+  }
+
+  unwrapOrElse(): T {
+    return this.value;
+  }
+
+  map<U>(f: (value: T) => U): Option<U> {
+    return some(f(this.value));
+  }
+
+  mapOr<U>(_: U, f: (value: T) => U): U {
+    return f(this.value);
+  }
+
+  mapOrElse<U>(_: () => U, f: (arg: T) => U): U {
+    return f(this.value);
+  }
+
+  okOr<E>(): Result<T, E> {
+    return ok(this.value);
+  }
+
+  okOrElse<E>(): Result<T, E> {
+    return ok(this.value);
+  }
+
+  and<U>(b: Option<U>): Option<U> {
+    return b;
+  }
+
+  or(): Option<T> {
+    return some(this.value);
+  }
+
+  orElse(): Option<T> {
+    return some(this.value);
+  }
+
+  flatMap<U>(f: (value: T) => Option<U>): Option<U> {
+    return f(this.value);
+  }
+
+  andThen<U>(f: (value: T) => Option<U>): Option<U> {
+    return f(this.value);
+  }
+
+  tap<F extends void | Promise<void>>(f: (value: T) => F): F {
+    return f(this.value);
+  }
+
+  filter(predicate: (arg: T) => boolean): Option<T> {
+    return predicate(this.value) ? some(this.value) : none;
+  }
+
+  filterMap<U>(f: (value: T) => U | null | undefined): Option<U> {
+    const mapped = f(this.value);
+    return mapped === null || typeof mapped === "undefined"
+      ? none
+      : some(mapped as U);
+  }
+
+  isNoneOr(predicate: (value: T) => boolean): boolean {
+    return predicate(this.value);
+  }
+
+  peek(f: (value: T) => void): Option<T> {
+    f(this.value);
+    return this;
+  }
+
+  unwrapOrDefault(): T {
+    return this.value;
+  }
+
+  zip<U>(other: Option<U>): Option<[T, U]> {
+    return other.isSome ? some([this.value, other.value]) : none;
+  }
+
+  zipWith<U, R>(other: Option<U>, f: (value: T, other: U) => R): Option<R> {
+    return other.isSome ? some(f(this.value, other.value)) : none;
+  }
+
+  unzip<A, B>(this: Option<[A, B]>): [Option<A>, Option<B>] {
+    const [a, b] = this.unwrap();
+    return [some(a), some(b)];
+  }
+
+  xor<T1 extends T>(other: Option<T1>): Option<T> {
+    return other.isSome ? none : this;
+  }
+
+  flatten<U>(this: Option<Option<U>>): Option<U> {
+    return this.unwrap();
+  }
+
+  transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E> {
+    return this.unwrap().map(some);
+  }
+
+  match<U>(pattern: { some: (value: T) => U; none: () => U }): U {
+    return pattern.some(this.value);
+  }
+
+  bind(): T {
+    return this.value;
+  }
+
+  b(): T {
+    return this.value;
+  }
+
+  [Symbol.iterator](): IterableIterator<T> {
+    return this.iter();
+  }
+
+  *iter(): IterableIterator<T> {
+    yield this.value;
+  }
+
+  toJSON(): OptionJSON<T> {
+    return { $type: "Option", variant: "some", value: this.value };
+  }
+
+  toString(): string {
+    return `Some(${display(this.value)})`;
+  }
+
+  get [Symbol.toStringTag](): string {
+    return "Some";
+  }
+
+  get [optionBrand](): true {
+    return true;
+  }
+
+  [inspectCustom](
+    depth: number,
+    options: InspectOptions,
+    inspect?: Inspect
+  ): string {
+    return inspectVariant(this, "Some", this.value, depth, options, inspect);
+  }
+}
+
+export const none: Option<any> = new None();
+
+export const some = <T>(value: T): Option<T> => new Some(value);
+
+/**
+ * Returns `true` if the value is an option.
+ *
+ * @example
+ * ```ts
+ * expect(isOption(some(42))).toBe(true)
+ * expect(isOption({ variant: "some", value: 42 })).toBe(false)
+ * ```
+ */
+export const isOption = (value: unknown): value is Option<unknown> =>
+  hasBrand(value, optionBrand);
+
+/**
+ * Returns `true` if the value is an option of the `Some` variant.
+ *
+ * @example
+ * ```ts
+ * expect(isSome(some(42))).toBe(true)
+ * expect(isSome(none)).toBe(false)
+ * expect(isSome(42)).toBe(false)
+ * ```
+ */
+export function isSome<T>(value: Option<T>): value is SomeVariant<T>;
+export function isSome(value: unknown): value is SomeVariant<unknown>;
+export function isSome(value: unknown): boolean {
+  return isOption(value) && value.variant === "some";
+}
+
+/**
+ * Returns `true` if the value is an option of the `None` variant.
+ *
+ * @example
+ * ```ts
+ * expect(isNone(none)).toBe(true)
+ * expect(isNone(null)).toBe(false)
+ * ```
+ */
+export function isNone<T>(value: Option<T>): value is NoneVariant<T>;
+export function isNone(value: unknown): value is NoneVariant<unknown>;
+export function isNone(value: unknown): boolean {
+  return isOption(value) && value.variant === "none";
+}
@@ -0,0 +1,169 @@
+import { describe, expect, expectTypeOf, test, vitest } from "vitest";
+import { flow, pipe } from "../pipe";
+import { of } from "./fns";
+import { Option, none, some } from "./option";
+import * as O from "./pipeable";
+import { err, ok } from "../result/result";
+
+describe("Option pipeable functions", () => {
+  const someVariant = some(42);
+  const noneVariant = none as Option<number>;
+
+  test("data-first and data-last calls give the same result", () => {
+    const inc = (x: number) => x + 1;
+
+    expect(O.map(someVariant, inc).unwrap()).toBe(43);
+    expect(O.map(inc)(someVariant).unwrap()).toBe(43);
+    expect(O.map(noneVariant, inc).isNone).toBe(true);
+    expect(O.map(inc)(noneVariant).isNone).toBe(true);
+  });
+
+  test("pipe", () => {
+    const res = pipe(
+      someVariant,
+      O.map((x) => x + 1),
+      O.filter((x) => x > 40),
+      O.flatMap((x) => some(`${x}`)),
+      O.unwrapOr("nothing")
+    );
+
+    expectTypeOf(res).toEqualTypeOf<string>();
+    expect(res).toBe("43");
+
+    expect(
+      pipe(
+        noneVariant,
+        O.map((x) => x + 1),
+        O.unwrapOr(0)
+      )
+    ).toBe(0);
+  });
+
+  test("flow", () => {
+    const parse = flow(
+      (value: string | null) => of(value),
+      O.map((value) => parseInt(value)),
+      O.filter((value) => !isNaN(value)),
+      O.unwrapOr(-1)
+    );
+
+    expect(parse("12")).toBe(12);
+    expect(parse("abc")).toBe(-1);
+    expect(parse(null)).toBe(-1);
+  });
+
+  test("isSomeAnd", () => {
+    expect(O.isSomeAnd(someVariant, (x) => x === 42)).toBe(true);
+    expect(O.isSomeAnd((x: number) => x > 100)(someVariant)).toBe(false);
+    expect(O.isSomeAnd(noneVariant, () => true)).toBe(false);
+  });
+
+  test("expect and unwrap", () => {
+    expect(O.expect(someVariant, "message")).toBe(42);
+    expect(() => O.expect("message")(noneVariant)).toThrow("message");
+    expect(O.unwrap(someVariant)).toBe(42);
+    expect(() => O.unwrap(noneVariant)).toThrow();
+  });
+
+  test("unwrapOr and unwrapOrElse", () => {
+    expect(O.unwrapOr(noneVariant, 1)).toBe(1);
+    expect(O.unwrapOrElse(() => 1)(noneVariant)).toBe(1);
+    expect(O.unwrapOrElse(someVariant, () => 1)).toBe(42);
+  });
+
+  test("mapOr and mapOrElse", () => {
+    const inc = (x: number) => x + 1;
+
+    expect(O.mapOr(someVariant, 0, inc)).toBe(43);
+    expect(O.mapOr(0, inc)(noneVariant)).toBe(0);
+    expect(O.mapOrElse(() => 0, inc)(someVariant)).toBe(43);
+    expect(O.mapOrElse(noneVariant, () => 0, inc)).toBe(0);
+  });
+
+  test("okOr and okOrElse", () => {
+    expect(O.okOr(someVariant, "error").unwrap()).toBe(42);
+    expect(O.okOr("error")(noneVariant).unwrapErr()).toBe("error");
+    expect(O.okOrElse(() => "error")(noneVariant).unwrapErr()).toBe("error");
+  });
+
+  test("and, or and orElse", () => {
+    expect(O.and(someVariant, some("a")).unwrap()).toBe("a");
+    expect(O.and(some("a"))(noneVariant).isNone).toBe(true);
+    expect(O.or(noneVariant, some(1)).unwrap()).toBe(1);
+    expect(O.or(some(1))(someVariant).unwrap()).toBe(42);
+    expect(O.orElse(() => some(1))(noneVariant).unwrap()).toBe(1);
+  });
+
+  test("flatMap and andThen", () => {
+    expect(O.flatMap(someVariant, (x) => some(x + 1)).unwrap()).toBe(43);
+    expect(O.andThen((x: number) => some(x + 1))(noneVariant).isNone).toBe(
+      true
+    );
+  });
+
+  test("tap", () => {
+    const fn = vitest.fn();
+    O.tap(someVariant, fn);
+    O.tap(fn)(noneVariant);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(fn).toHaveBeenCalledWith(42);
+  });
+
+  test("match", () => {
+    const pattern = { some: (x: number) => x + 1, none: () => 0 };
+
+    expect(O.match(someVariant, pattern)).toBe(43);
+    expect(O.match(pattern)(noneVariant)).toBe(0);
+  });
+
+  test("filterMapOption", () => {
+    const names = new Map([[42, "John"]]);
+
+    const name = pipe(
+      someVariant,
+      O.filterMapOption((x) => names.get(x))
+    );
+    expectTypeOf(name).toEqualTypeOf<Option<string>>();
+    expect(name.unwrap()).toBe("John");
+    expect(O.filterMapOption(someVariant, () => null).isNone).toBe(true);
+    expect(O.filterMapOption(noneVariant, (x) => x).isNone).toBe(true);
+  });
+
+  test("zip, zipWith and unzip", () => {
+    expect(O.zip(someVariant, some("a")).unwrap()).toEqual([42, "a"]);
+    expect(O.zip(some("a"))(noneVariant).isNone).toBe(true);
+    expect(
+      O.zipWith(some(1), (a: number, b: number) => a + b)(someVariant).unwrap()
+    ).toBe(43);
+
+    const [a, b] = O.unzip(some([1, "a"] as [number, string]));
+    expect(a.unwrap()).toBe(1);
+    expect(b.unwrap()).toBe("a");
+  });
+
+  test("xor and flatten", () => {
+    expect(O.xor(noneVariant, some(1)).unwrap()).toBe(1);
+    expect(O.xor(some(1))(someVariant).isNone).toBe(true);
+    expect(O.flatten(some(some(1))).unwrap()).toBe(1);
+  });
+
+  test("transpose", () => {
+    expect(
+      O.transpose(some(ok(1)))
+        .unwrap()
+        .unwrap()
+    ).toBe(1);
+    expect(O.transpose(some(err("error"))).unwrapErr()).toBe("error");
+  });
+
+  test("isNoneOr, peek and unwrapOrDefault", () => {
+    const fn = vitest.fn();
+
+    expect(O.isNoneOr(noneVariant, (x) => x > 100)).toBe(true);
+    expect(O.isNoneOr((x: number) => x > 100)(someVariant)).toBe(false);
+    expect(O.peek(someVariant, fn).unwrap()).toBe(42);
+    expect(fn).toHaveBeenCalledWith(42);
+    expect(pipe(noneVariant, O.unwrapOrDefault(Number))).toBe(0);
+    expect(O.unwrapOrDefault(someVariant, Number)).toBe(42);
+  });
+});
@@ -0,0 +1,267 @@
+import { dual } from "../dual";
+import { Result } from "../result/result";
+import { Option } from "./option";
+
+/*
+ * Standalone versions of the Option methods. Every function can be called
+ * data-first (`map(opt, f)`) or data-last (`map(f)(opt)`), the latter
+ * being handy with `pipe` and `flow`.
+ */
+
+/**
+ * Standalone version of `Option.isSomeAnd`.
+ */
+export const isSomeAnd: {
+  <T>(predicate: (value: T) => boolean): (self: Option<T>) => boolean;
+  <T>(self: Option<T>, predicate: (value: T) => boolean): boolean;
+} = dual(2, (self: Option<any>, predicate: any) => self.isSomeAnd(predicate));
+
+/**
+ * Standalone version of `Option.expect`.
+ */
+export const expect: {
+  (message: string): <T>(self: Option<T>) => T;
+  <T>(self: Option<T>, message: string): T;
+} = dual(2, (self: Option<any>, message: string) => self.expect(message));
+
+/**
+ * Standalone version of `Option.unwrap`.
+ */
+export const unwrap = <T>(self: Option<T>): T => self.unwrap();
+
+/**
+ * Standalone version of `Option.unwrapOr`.
+ *
+ * @example
+ * ```ts
+ * expect(pipe(none, unwrapOr(1))).toBe(1)
+ * expect(unwrapOr(some(42), 1)).toBe(42)
+ * ```
+ */
+export const unwrapOr: {
+  <T1>(defaultValue: T1): <T>(self: Option<T>) => T | T1;
+  <T, T1 extends T>(self: Option<T>, defaultValue: T1): T;
+} = dual(2, (self: Option<any>, defaultValue: any) =>
+  self.unwrapOr(defaultValue)
+);
+
+/**
+ * Standalone version of `Option.unwrapOrElse`.
+ */
+export const unwrapOrElse: {
+  <T1>(defaultValueFun: () => T1): <T>(self: Option<T>) => T | T1;
+  <T, T1 extends T>(self: Option<T>, defaultValueFun: () => T1): T;
+} = dual(2, (self: Option<any>, defaultValueFun: any) =>
+  self.unwrapOrElse(defaultValueFun)
+);
+
+/**
+ * Standalone version of `Option.map`.
+ *
+ * @example
+ * ```ts
+ * expect(pipe(some(42), map((x) => x + 1)).unwrap()).toBe(43)
+ * expect(map(some(42), (x) => x + 1).unwrap()).toBe(43)
+ * ```
+ */
+export const map: {
+  <T, U>(f: (value: T) => U): (self: Option<T>) => Option<U>;
+  <T, U>(self: Option<T>, f: (value: T) => U): Option<U>;
+} = dual(2, (self: Option<any>, f: any) => self.map(f));
+
+/**
+ * Standalone version of `Option.mapOr`.
+ */
+export const mapOr: {
+  <T, U>(defaultValue: U, f: (value: T) => U): (self: Option<T>) => U;
+  <T, U>(self: Option<T>, defaultValue: U, f: (value: T) => U): U;
+} = dual(3, (self: Option<any>, defaultValue: any, f: any) =>
+  self.mapOr(defaultValue, f)
+);
+
+/**
+ * Standalone version of `Option.mapOrElse`.
+ */
+export const mapOrElse: {
+  <T, U>(defaultValueFun: () => U, f: (arg: T) => U): (self: Option<T>) => U;
+  <T, U>(self: Option<T>, defaultValueFun: () => U, f: (arg: T) => U): U;
+} = dual(3, (self: Option<any>, defaultValueFun: any, f: any) =>
+  self.mapOrElse(defaultValueFun, f)
+);
+
+/**
+ * Standalone version of `Option.okOr`.
+ */
+export const okOr: {
+  <E>(err: E): <T>(self: Option<T>) => Result<T, E>;
+  <T, E>(self: Option<T>, err: E): Result<T, E>;
+} = dual(2, (self: Option<any>, err: any) => self.okOr(err));
+
+/**
+ * Standalone version of `Option.okOrElse`.
+ */
+export const okOrElse: {
+  <E>(f: () => E): <T>(self: Option<T>) => Result<T, E>;
+  <T, E>(self: Option<T>, f: () => E): Result<T, E>;
+} = dual(2, (self: Option<any>, f: any) => self.okOrElse(f));
+
+/**
+ * Standalone version of `Option.and`.
+ */
+export const and: {
+  <U>(b: Option<U>): <T>(self: Option<T>) => Option<U>;
+  <T, U>(self: Option<T>, b: Option<U>): Option<U>;
+} = dual(2, (self: Option<any>, b: any) => self.and(b));
+
+/**
+ * Standalone version of `Option.or`.
+ */
+export const or: {
+  <T1>(b: Option<T1>): <T>(self: Option<T>) => Option<T | T1>;
+  <T, T1 extends T>(self: Option<T>, b: Option<T1>): Option<T>;
+} = dual(2, (self: Option<any>, b: any) => self.or(b));
+
+/**
+ * Standalone version of `Option.orElse`.
+ */
+export const orElse: {
+  <T1>(f: () => Option<T1>): <T>(self: Option<T>) => Option<T | T1>;
+  <T, T1 extends T>(self: Option<T>, f: () => Option<T1>): Option<T>;
+} = dual(2, (self: Option<any>, f: any) => self.orElse(f));
+
+/**
+ * Standalone version of `Option.flatMap`.
+ *
+ * @alias andThen
+ */
+export const flatMap: {
+  <T, U>(f: (value: T) => Option<U>): (self: Option<T>) => Option<U>;
+  <T, U>(self: Option<T>, f: (value: T) => Option<U>): Option<U>;
+} = dual(2, (self: Option<any>, f: any) => self.flatMap(f));
+
+/**
+ * Standalone version of `Option.andThen`.
+ *
+ * @alias flatMap
+ */
+export const andThen = flatMap;
+
+/**
+ * Standalone version of `Option.tap`.
+ */
+export const tap: {
+  <T, F extends void | Promise<void>>(f: (value: T) => F): (
+    self: Option<T>
+  ) => F;
+  <T, F extends void | Promise<void>>(self: Option<T>, f: (value: T) => F): F;
+} = dual(2, (self: Option<any>, f: any) => self.tap(f));
+
+/**
+ * Standalone version of `Option.filter`.
+ */
+export const filter: {
+  <T>(predicate: (arg: T) => boolean): (self: Option<T>) => Option<T>;
+  <T>(self: Option<T>, predicate: (arg: T) => boolean): Option<T>;
+} = dual(2, (self: Option<any>, predicate: any) => self.filter(predicate));
+
+/**
+ * Standalone version of `Option.match`.
+ */
+export const match: {
+  <T, U>(pattern: { some: (value: T) => U; none: () => U }): (
+    self: Option<T>
+  ) => U;
+  <T, U>(self: Option<T>, pattern: { some: (value: T) => U; none: () => U }): U;
+} = dual(2, (self: Option<any>, pattern: any) => self.match(pattern));
+
+/**
+ * Standalone version of `Option.iter`.
+ */
+export const iter = <T>(self: Option<T>): IterableIterator<T> => self.iter();
+
+/**
+ * Standalone version of `Option.filterMap`. It's named `filterMapOption`,
+ * since `filterMap` over collections takes the name.
+ */
+export const filterMapOption: {
+  <T, U>(f: (value: T) => U | null | undefined): (self: Option<T>) => Option<U>;
+  <T, U>(self: Option<T>, f: (value: T) => U | null | undefined): Option<U>;
+} = dual(2, (self: Option<any>, f: any) => self.filterMap(f));
+
+/**
+ * Standalone version of `Option.isNoneOr`.
+ */
+export const isNoneOr: {
+  <T>(predicate: (value: T) => boolean): (self: Option<T>) => boolean;
+  <T>(self: Option<T>, predicate: (value: T) => boolean): boolean;
+} = dual(2, (self: Option<any>, predicate: any) => self.isNoneOr(predicate));
+
+/**
+ * Standalone version of `Option.peek`.
+ */
+export const peek: {
+  <T>(f: (value: T) => void): (self: Option<T>) => Option<T>;
+  <T>(self: Option<T>, f: (value: T) => void): Option<T>;
+} = dual(2, (self: Option<any>, f: any) => self.peek(f));
+
+/**
+ * Standalone version of `Option.unwrapOrDefault`.
+ *
+ * @example
+ * ```ts
+ * expect(pipe(none, unwrapOrDefault(Number))).toBe(0)
+ * ```
+ */
+export const unwrapOrDefault: {
+  <T1>(type: () => T1): <T>(self: Option<T>) => T | T1;
+  <T, T1 extends T>(self: Option<T>, type: () => T1): T;
+} = dual(2, (self: Option<any>, type: any) => self.unwrapOrDefault(type));
+
+/**
+ * Standalone version of `Option.zip`.
+ */
+export const zip: {
+  <U>(other: Option<U>): <T>(self: Option<T>) => Option<[T, U]>;
+  <T, U>(self: Option<T>, other: Option<U>): Option<[T, U]>;
+} = dual(2, (self: Option<any>, other: any) => self.zip(other));
+
+/**
+ * Standalone version of `Option.zipWith`.
+ */
+export const zipWith: {
+  <T, U, R>(other: Option<U>, f: (value: T, other: U) => R): (
+    self: Option<T>
+  ) => Option<R>;
+  <T, U, R>(
+    self: Option<T>,
+    other: Option<U>,
+    f: (value: T, other: U) => R
+  ): Option<R>;
+} = dual(3, (self: Option<any>, other: any, f: any) => self.zipWith(other, f));
+
+/**
+ * Standalone version of `Option.unzip`.
+ */
+export const unzip = <A, B>(self: Option<[A, B]>): [Option<A>, Option<B>] =>
+  self.unzip();
+
+/**
+ * Standalone version of `Option.xor`.
+ */
+export const xor: {
+  <T1>(other: Option<T1>): <T>(self: Option<T>) => Option<T | T1>;
+  <T, T1 extends T>(self: Option<T>, other: Option<T1>): Option<T>;
+} = dual(2, (self: Option<any>, other: any) => self.xor(other));
+
+/**
+ * Standalone version of `Option.flatten`.
+ */
+export const flatten = <T>(self: Option<Option<T>>): Option<T> =>
+  self.flatten();
+
+/**
+ * Standalone version of `Option.transpose`.
+ */
+export const transpose = <T, E>(
+  self: Option<Result<T, E>>
+): Result<Option<T>, E> => self.transpose();
@@ -0,0 +1,306 @@
+import { describe, expect, expectTypeOf, test, vitest } from "vitest";
+import { AbortError } from "../abort";
+import { AsyncResult, asyncResult, errAsync, okAsync } from "./async";
+import { Option, none, some } from "../option/option";
+import { Result, err, ok } from "./result";
+import { TaggedError } from "./taggedError";
+import { ContextError } from "./contextError";
+
+describe("AsyncResult", () => {
+  const delay = <T>(value: T): Promise<T> =>
+    new Promise((resolve) => setTimeout(() => resolve(value), 0));
+
+  const okVariant = asyncResult(delay(ok(42) as Result<number, string>));
+  const errVariant = asyncResult(delay(err("error") as Result<number, string>));
+
+  test("await resolves to a plain result", async () => {
+    const res = await okVariant;
+    expectTypeOf(res).toEqualTypeOf<Result<number, string>>();
+    expect(res.isOk).toBe(true);
+    expect(res.unwrap()).toBe(42);
+    expect((await errVariant).unwrapErr()).toBe("error");
+  });
+
+  test("isOkAnd and isErrAnd", async () => {
+    expect(await okVariant.isOkAnd(async (v) => v === 42)).toBe(true);
+    expect(await okVariant.isOkAnd((v) => v > 100)).toBe(false);
+    expect(await errVariant.isOkAnd((v) => v === 42)).toBe(false);
+    expect(await errVariant.isErrAnd(async (e) => e === "error")).toBe(true);
+  });
+
+  test("ok and err", async () => {
+    expect((await okVariant.ok()).unwrap()).toBe(42);
+    expect((await errVariant.ok()).isNone).toBe(true);
+    expect((await errVariant.err()).unwrap()).toBe("error");
+  });
+
+  test("unwrap, expect and friends", async () => {
+    expect(await okVariant.unwrap()).toBe(42);
+    expect(await okVariant.expect("message")).toBe(42);
+    expect(await errVariant.unwrapErr()).toBe("error");
+    expect(await errVariant.expectErr("message")).toBe("error");
+    await expect(errVariant.unwrap()).rejects.toThrow();
+    await expect(errVariant.expect("message")).rejects.toThrow(/^message$/);
+    await expect(okVariant.unwrapErr()).rejects.toThrow();
+  });
+
+  test("unwrapOr and unwrapOrElse", async () => {
+    expect(await okVariant.unwrapOr(1)).toBe(42);
+    expect(await errVariant.unwrapOr(1)).toBe(1);
+    expect(await errVariant.unwrapOrElse(async () => 2)).toBe(2);
+  });
+
+  test("map with sync and async callbacks", async () => {
+    const res = okVariant.map((x) => x + 1).map(async (x) => `${x}`);
+    expectTypeOf(res).toEqualTypeOf<AsyncResult<string, string>>();
+    expect(await res.unwrap()).toBe("43");
+
+    const fn = vitest.fn();
+    expect((await errVariant.map(fn)).isErr).toBe(true);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  test("mapOr and mapOrElse", async () => {
+    expect(await okVariant.mapOr(0, async (x) => x + 1)).toBe(43);
+    expect(await errVariant.mapOr(0, (x) => x + 1)).toBe(0);
+    expect(
+      await errVariant.mapOrElse(
+        async () => 100,
+        (x) => x + 1
+      )
+    ).toBe(100);
+  });
+
+  test("mapErr", async () => {
+    const res = errVariant.mapErr(async (e) => e.length);
+    expectTypeOf(res).toEqualTypeOf<AsyncResult<number, number>>();
+    expect(await res.unwrapErr()).toBe(5);
+    expect(await okVariant.mapErr((e) => e.length).unwrap()).toBe(42);
+  });
+
+  test("and, or and orElse", async () => {
+    expect(await okVariant.and(delay(ok("b"))).unwrap()).toBe("b");
+    expect(await errVariant.and(ok("b")).unwrapErr()).toBe("error");
+    expect(await okVariant.or(ok(1)).unwrap()).toBe(42);
+    expect(await errVariant.or(delay(ok(1))).unwrap()).toBe(1);
+    expect(await errVariant.orElse(async () => ok(2)).unwrap()).toBe(2);
+
+    expectTypeOf(
+      okVariant.and(err(1) as Result<boolean, number>)
+    ).toEqualTypeOf<AsyncResult<boolean, string | number>>();
+    expectTypeOf(
+      errVariant.orElse(async () => ok("a") as Result<string, number>)
+    ).toEqualTypeOf<AsyncResult<number | string, number>>();
+  });
+
+  test("and and or don't leave a skipped rejection unhandled", async () => {
+    const onUnhandled = vitest.fn();
+    process.on("unhandledRejection", onUnhandled);
+    try {
+      const boom = () => Promise.reject(new Error("boom"));
+      expect(await errAsync("e").and(boom()).unwrapErr()).toBe("e");
+      expect(await okAsync(1).or(boom()).unwrap()).toBe(1);
+      await expect(okAsync(1).and(boom())).rejects.toThrow("boom");
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(onUnhandled).not.toHaveBeenCalled();
+    } finally {
+      process.off("unhandledRejection", onUnhandled);
+    }
+  });
+
+  test("andThen widens the error type", async () => {
+    const check = (x: number): Result<number, number> =>
+      x > 100 ? ok(x) : err(x);
+    const res = okVariant.andThen(async (x) => check(x));
+    expectTypeOf(res).toEqualTypeOf<AsyncResult<number, string | number>>();
+    expect(await res.unwrapErr()).toBe(42);
+  });
+
+  test("andThen and flatMap accept results, promises and async results", async () => {
+    const res = okVariant
+      .andThen((x) => ok(x + 1))
+      .andThen(async (x) => ok(x + 1))
+      .flatMap((x) => okAsync(x + 1));
+
+    expect(await res.unwrap()).toBe(45);
+
+    const fn = vitest.fn();
+    const short = okVariant
+      .andThen(() => errAsync("boom"))
+      .andThen(async (x) => {
+        fn();
+        return ok(x);
+      });
+
+    expect(await short.unwrapErr()).toBe("boom");
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  test("tap waits for the callback and keeps the chain going", async () => {
+    let value = 0;
+
+    const res = await okVariant
+      .tap(async (x) => {
+        await delay(null);
+        value += x;
+      })
+      .map((x) => x + 1);
+
+    expect(value).toBe(42);
+    expect(res.unwrap()).toBe(43);
+
+    await errVariant.tap((x) => {
+      value += x;
+    });
+    expect(value).toBe(42);
+  });
+
+  test("match", async () => {
+    const pattern = {
+      ok: async (x: number) => x + 1,
+      err: (e: string) => e.length,
+    };
+
+    expect(await okVariant.match(pattern)).toBe(43);
+    expect(await errVariant.match(pattern)).toBe(5);
+  });
+
+  test("context and withContext", async () => {
+    const res = errVariant.context("loading user");
+    expectTypeOf(res).toEqualTypeOf<
+      AsyncResult<number, ContextError<string>>
+    >();
+    const error = await res.unwrapErr();
+    expect(error.message).toBe("loading user");
+    expect(error.cause).toBe("error");
+    expect(await okVariant.context("loading user").unwrap()).toBe(42);
+
+    const withContext = await errVariant
+      .withContext((error) => `${error} while loading user`)
+      .unwrapErr();
+    expect(withContext.message).toBe("error while loading user");
+  });
+
+  test("catchTag and matchError", async () => {
+    class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+    class Timeout extends TaggedError("Timeout") {}
+    const find = (id: string) =>
+      asyncResult(
+        delay(
+          (id === "slow"
+            ? err(new Timeout())
+            : err(new NotFound({ id }))) as Result<number, NotFound | Timeout>
+        )
+      );
+
+    const res = find("2").catchTag("NotFound", async (error) =>
+      error.id === "2" ? (ok(2) as Result<number, never>) : err(error)
+    );
+    expectTypeOf(res).toEqualTypeOf<AsyncResult<number, Timeout | NotFound>>();
+    expect(await res.unwrap()).toBe(2);
+    expect(
+      await find("slow")
+        .catchTag("NotFound", () => ok(0))
+        .unwrapErr()
+    ).toBeInstanceOf(Timeout);
+
+    const message = find("1").matchError({
+      NotFound: async (error) => `no user ${error.id}`,
+      Timeout: () => "try again later",
+    });
+    expectTypeOf(message).toEqualTypeOf<Promise<number | string>>();
+    expect(await message).toBe("no user 1");
+  });
+
+  test("flatten", async () => {
+    const res = okAsync(ok(1) as Result<number, number>).flatten();
+    expectTypeOf(res).toEqualTypeOf<AsyncResult<number, any>>();
+    expect(await res.unwrap()).toBe(1);
+    expect(await okAsync(err("inner")).flatten().unwrapErr()).toBe("inner");
+  });
+
+  test("transpose, okOr and okOrElse", async () => {
+    const found = asyncResult(
+      delay(ok(some(1)) as Result<Option<number>, string>)
+    );
+    const missing = asyncResult(
+      delay(ok(none) as Result<Option<number>, string>)
+    );
+
+    expect((await found.transpose()).unwrap().unwrap()).toBe(1);
+    expect((await missing.transpose()).isNone).toBe(true);
+
+    const res = missing.okOr(404);
+    expectTypeOf(res).toEqualTypeOf<AsyncResult<number, string | number>>();
+    expect(await res.unwrapErr()).toBe(404);
+    expect(await found.okOrElse(async () => 404).unwrap()).toBe(1);
+    expect(await missing.okOrElse(async () => 404).unwrapErr()).toBe(404);
+  });
+
+  test("iter", async () => {
+    const values: number[] = [];
+    for await (const value of okVariant.iter()) {
+      values.push(value);
+    }
+    for await (const value of errVariant.iter()) {
+      values.push(value);
+    }
+    expect(values).toEqual([42]);
+  });
+
+  describe("withSignal", () => {
+    test("skips the later steps once the signal is aborted", async () => {
+      const controller = new AbortController();
+      let resolveUser = (_: Result<string, string>) => {};
+      const user = new Promise<Result<string, string>>((resolve) => {
+        resolveUser = resolve;
+      });
+      const fetchPosts = vitest.fn(
+        async (user: string): Promise<Result<string[], string>> => ok([user])
+      );
+
+      const res = asyncResult(user)
+        .withSignal(controller.signal)
+        .andThen(fetchPosts);
+      controller.abort("cancelled");
+
+      expectTypeOf(res).toEqualTypeOf<
+        AsyncResult<string[], string | AbortError>
+      >();
+      const error = await res.unwrapErr();
+      expect(error).toBeInstanceOf(AbortError);
+      expect(error).toMatchObject({ cause: "cancelled" });
+
+      resolveUser(ok("John"));
+      await delay(null);
+      expect(fetchPosts).not.toHaveBeenCalled();
+    });
+
+    test("doesn't wait for a pending step", async () => {
+      const controller = new AbortController();
+      const res = okVariant
+        .withSignal(controller.signal)
+        .andThen(() => new Promise<Result<number, string>>(() => {}));
+      controller.abort();
+
+      expect(await res.unwrapErr()).toBeInstanceOf(AbortError);
+    });
+
+    test("steps that change the error type get the AbortError", async () => {
+      const res = okVariant
+        .withSignal(AbortSignal.abort())
+        .mapErr((error) => (error instanceof AbortError ? "aborted" : error));
+
+      expectTypeOf(res).toEqualTypeOf<AsyncResult<number, string>>();
+      expect(await res.unwrapErr()).toBe("aborted");
+    });
+
+    test("resolves normally if the signal isn't aborted", async () => {
+      const res = okVariant
+        .withSignal(new AbortController().signal)
+        .map((x) => x + 1);
+      expect(await res.unwrap()).toBe(43);
+    });
+  });
+});
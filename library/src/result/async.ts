@@ -0,0 +1,451 @@
+import { AbortError, abortable } from "../abort";
+import { handled } from "../handled";
+import { lazySelectAsync } from "../iterables";
+import { AsyncOption, asyncOption } from "../option/async";
+import { Option } from "../option/option";
+import { ContextError } from "./contextError";
+import { Result, err, ok } from "./result";
+import {
+  ErrorHandlers,
+  ErrorWithTag,
+  TagOf,
+  Tagged,
+  hasTag,
+} from "./taggedError";
+
+/**
+ * A value that is either available right away or will be available
+ * once the promise resolves.
+ */
+export type Awaitable<T> = T | PromiseLike<T>;
+
+/**
+ * An awaitable `Result<T, E>`. It has the same methods as a `Result`,
+ * but every callback can be either sync or async and the whole chain
+ * resolves to a plain `Result` when awaited.
+ *
+ * @example
+ * ```ts
+ * const res: Result<number, string> = await asyncResult(fetchUser())
+ *   .andThen(async (user) => ok(user.age))
+ *   .map((age) => age + 1);
+ * ```
+ */
+export class AsyncResult<T, E> implements PromiseLike<Result<T, E>> {
+  constructor(
+    private readonly promise: Promise<Result<T, E>>,
+    private readonly signal?: AbortSignal
+  ) {}
+
+  then<A = Result<T, E>, B = never>(
+    onfulfilled?: ((result: Result<T, E>) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: any) => B | PromiseLike<B>) | null
+  ): Promise<A | B> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  // With a signal the step is skipped once it's aborted. Its error type
+  // includes `AbortError` then, see `withSignal`.
+  private chain<U, F>(
+    f: (result: Result<T, E>) => Awaitable<Result<U, F>>
+  ): AsyncResult<U, F> {
+    const { signal } = this;
+    if (!signal) {
+      return new AsyncResult(this.promise.then(f));
+    }
+    // the AbortError is part of F, see `withSignal`
+    const aborted = (): Result<U, F> =>
+      err(new AbortError(signal.reason) as unknown as F);
+    return new AsyncResult(
+      abortable(
+        this.promise.then((result) => (signal.aborted ? aborted() : f(result))),
+        signal,
+        aborted
+      ),
+      signal
+    );
+  }
+
+  // The steps that change the error type leave the signal behind,
+  // since their error type may not include `AbortError` anymore.
+  private chainErr<U, F>(
+    f: (result: Result<T, E>) => Awaitable<Result<U, F>>
+  ): AsyncResult<U, F> {
+    return new AsyncResult(this.promise.then(f));
+  }
+
+  /**
+   * Cancels the rest of the chain with a signal. Once it's aborted, the chain
+   * resolves to `Err(AbortError)` right away and the callbacks of the steps
+   * after `withSignal` aren't called anymore. The steps that change the error
+   * type, like `mapErr`, `orElse` and `catchTag`, handle the `AbortError` like
+   * any other error and end the reach of the signal, call `withSignal` again
+   * after them to keep it.
+   *
+   * @example
+   * ```ts
+   * const posts = await asyncResult(fetchUser(id, { signal }))
+   *   .withSignal(signal)
+   *   .andThen((user) => fetchPosts(user, { signal }));
+   * // posts: Result<Post[], FetchError | AbortError>
+   * ```
+   */
+  withSignal(signal: AbortSignal): AsyncResult<T, E | AbortError> {
+    return new AsyncResult(
+      abortable<Result<T, E | AbortError>>(
+        this.promise as Promise<Result<T, E | AbortError>>,
+        signal,
+        () => err(new AbortError(signal.reason))
+      ),
+      signal
+    );
+  }
+
+  /**
+   *  Resolves to `true` if the result is an Ok variant and the value inside
+   *  of it matches a predicate.
+   */
+  isOkAnd(predicate: (value: T) => Awaitable<boolean>): Promise<boolean> {
+    return this.promise.then(
+      async (result) => result.isOk && (await predicate(result.value))
+    );
+  }
+
+  /**
+   *  Resolves to `true` if the result is an Err variant and the error inside
+   *  of it matches a predicate.
+   */
+  isErrAnd(predicate: (value: E) => Awaitable<boolean>): Promise<boolean> {
+    return this.promise.then(
+      async (result) => result.isErr && (await predicate(result.error))
+    );
+  }
+
+  /**
+   * Converts from AsyncResult<T, E> to AsyncOption<T> discarding the error, if any.
+   */
+  ok(): AsyncOption<T> {
+    return asyncOption(this.promise.then((result) => result.ok()));
+  }
+
+  /**
+   * Converts from AsyncResult<T, E> to AsyncOption<E> discarding the value, if any.
+   */
+  err(): AsyncOption<E> {
+    return asyncOption(this.promise.then((result) => result.err()));
+  }
+
+  /**
+   *  Resolves to the Ok value or rejects with the given message, and the error
+   *  as its `cause`, if the result is an `Err` variant.
+   */
+  expect(message: string): Promise<T> {
+    return this.promise.then((result) => result.expect(message));
+  }
+
+  /**
+   *  Resolves to the Ok value or rejects if the result is an `Err` variant.
+   */
+  unwrap(): Promise<T> {
+    return this.promise.then((result) => result.unwrap());
+  }
+
+  /**
+   *  Resolves to the Err value or rejects with the given message
+   *  if the result is an `Ok` variant.
+   */
+  expectErr(message: string): Promise<E> {
+    return this.promise.then((result) =>
+      result.isErr ? result.error : result.expectErr(message)
+    ) as Promise<E>;
+  }
+
+  /**
+   *  Resolves to the Err value or rejects if the result is an `Ok` variant.
+   */
+  unwrapErr(): Promise<E> {
+    return this.promise.then((result) => result.unwrapErr());
+  }
+
+  /**
+   *  Resolves to the Ok value or the provided default value.
+   *
+   * @example
+   * ```ts
+   *  expect(await okAsync(42).unwrapOr(1)).toBe(42)
+   *  expect(await errAsync("error").unwrapOr(1)).toBe(1)
+   * ```
+   */
+  unwrapOr<T1 extends T>(defaultValue: T1): Promise<T> {
+    return this.promise.then((result) => result.unwrapOr(defaultValue));
+  }
+
+  /**
+   *  Resolves to the Ok value or computes it from a (possibly async) function.
+   */
+  unwrapOrElse<T1 extends T>(defaultValueFun: () => Awaitable<T1>): Promise<T> {
+    return this.promise.then((result) =>
+      result.isOk ? result.value : defaultValueFun()
+    );
+  }
+
+  /**
+   * Maps an AsyncResult<T, E> to AsyncResult<U, E> by applying a (possibly async)
+   * function to a contained Ok value, leaving an Err value untouched.
+   *
+   * @example
+   * ```ts
+   *  expect(await okAsync(42).map(async (x) => x + 1).unwrap()).toBe(43)
+   * ```
+   */
+  map<U>(f: (value: T) => Awaitable<U>): AsyncResult<U, E> {
+    return this.chain(async (result) =>
+      result.isOk ? ok(await f(result.value)) : err(result.error)
+    );
+  }
+
+  /**
+   *  Resolves to the provided default (if Err), or applies
+   *  a (possibly async) function to the contained value (if Ok).
+   */
+  mapOr<U>(defaultValue: U, f: (value: T) => Awaitable<U>): Promise<U> {
+    return this.promise.then((result) =>
+      result.isOk ? f(result.value) : defaultValue
+    );
+  }
+
+  /**
+   *  Resolves to the result of `defaultValueFun` (if Err), or applies
+   *  `f` to the contained value (if Ok).
+   */
+  mapOrElse<U>(
+    defaultValueFun: () => Awaitable<U>,
+    f: (arg: T) => Awaitable<U>
+  ): Promise<U> {
+    return this.promise.then((result) =>
+      result.isOk ? f(result.value) : defaultValueFun()
+    );
+  }
+
+  /**
+   * Maps an AsyncResult<T, E> to AsyncResult<T, F> by applying a (possibly async)
+   * function to a contained Err value, leaving an Ok value untouched.
+   */
+  mapErr<U>(f: (value: E) => Awaitable<U>): AsyncResult<T, U> {
+    return this.chainErr(async (result) =>
+      result.isErr ? err(await f(result.error)) : ok(result.value)
+    );
+  }
+
+  /**
+   * Wraps the error in a `ContextError` with the message, like `Result.context`.
+   */
+  context(message: string): AsyncResult<T, ContextError<E>> {
+    return this.chainErr((result) => result.context(message));
+  }
+
+  /**
+   * Wraps the error in a `ContextError` with the message returned by `f`,
+   * like `Result.withContext`.
+   */
+  withContext(f: (error: E) => string): AsyncResult<T, ContextError<E>> {
+    return this.chainErr((result) => result.withContext(f));
+  }
+
+  /**
+   * Returns `b` if the result is Ok, otherwise returns the Err value of self.
+   * The error type is the union of both error types.
+   */
+  and<U, E1>(b: Awaitable<Result<U, E1>>): AsyncResult<U, E | E1> {
+    handled(b);
+    return this.chain<U, E | E1>((result) =>
+      result.isOk ? b : err(result.error)
+    );
+  }
+
+  /**
+   *  Returns `b` if the result is Err, otherwise returns the Ok value of self.
+   *  The Ok type is the union of both Ok types.
+   */
+  or<U, F>(b: Awaitable<Result<U, F>>): AsyncResult<T | U, F> {
+    handled(b);
+    return this.chainErr<T | U, F>((result) =>
+      result.isOk ? ok(result.value) : b
+    );
+  }
+
+  /**
+   * Returns the result if it is Ok, otherwise calls `f` and returns its result.
+   * The Ok type is the union of both Ok types.
+   */
+  orElse<U, F>(f: () => Awaitable<Result<U, F>>): AsyncResult<T | U, F> {
+    return this.chainErr<T | U, F>((result) =>
+      result.isOk ? ok(result.value) : f()
+    );
+  }
+
+  /**
+   *  Returns the Err if the result is Err, otherwise calls
+   *  `f` with the wrapped value and returns its result.
+   *  `f` can return a `Result`, a `Promise<Result>` or an `AsyncResult`.
+   *  The error type is the union of the errors of both steps.
+   *
+   * @alias flatMap
+   *
+   * @example
+   * ```ts
+   *  expect(await okAsync(42).andThen(async (x) => ok(x + 1)).unwrap()).toBe(43)
+   * ```
+   */
+  andThen<U, E1>(
+    f: (value: T) => Awaitable<Result<U, E1>>
+  ): AsyncResult<U, E | E1> {
+    return this.chain<U, E | E1>((result) =>
+      result.isOk ? f(result.value) : err(result.error)
+    );
+  }
+
+  /**
+   * @alias andThen
+   */
+  flatMap<U, E1>(
+    f: (value: T) => Awaitable<Result<U, E1>>
+  ): AsyncResult<U, E | E1> {
+    return this.andThen(f);
+  }
+
+  /**
+   * Removes one level of nesting from an async result of a result,
+   * like `Result.flatten`.
+   */
+  flatten<U, E1>(this: AsyncResult<Result<U, E1>, E>): AsyncResult<U, E | E1> {
+    return this.chain((result) => result.flatten());
+  }
+
+  /**
+   * Transposes an async result of an option into an async option of a result,
+   * like `Result.transpose`.
+   */
+  transpose<U>(this: AsyncResult<Option<U>, E>): AsyncOption<Result<U, E>> {
+    return asyncOption(this.promise.then((result) => result.transpose()));
+  }
+
+  /**
+   * Converts an async result of an option into an async result of the value,
+   * mapping `Ok(None)` to `Err(error)`, like `Result.okOr`.
+   */
+  okOr<U, E1>(
+    this: AsyncResult<Option<U>, E>,
+    error: E1
+  ): AsyncResult<U, E | E1> {
+    return this.chain((result) => result.okOr(error));
+  }
+
+  /**
+   * Like `okOr`, but the error for `Ok(None)` is computed by a
+   * (possibly async) function.
+   */
+  okOrElse<U, E1>(
+    this: AsyncResult<Option<U>, E>,
+    f: () => Awaitable<E1>
+  ): AsyncResult<U, E | E1> {
+    return this.chain<U, E | E1>(async (result) =>
+      result.isOk && result.value.isNone
+        ? err(await f())
+        : result.okOr(undefined as E1)
+    );
+  }
+
+  /**
+   *  Runs the given (possibly async) void function with the Ok value and waits for it.
+   *  Unlike `Result.tap` it returns the same async result so the chain can continue.
+   */
+  tap(f: (value: T) => Awaitable<void>): AsyncResult<T, E> {
+    return this.chain(async (result) => {
+      if (result.isOk) {
+        await f(result.value);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Resolves to the result of the `ok` or `err` callback, depending on the variant.
+   */
+  match<U>(pattern: {
+    ok: (value: T) => Awaitable<U>;
+    err: (value: E) => Awaitable<U>;
+  }): Promise<U> {
+    return this.promise.then((result) =>
+      result.isOk ? pattern.ok(result.value) : pattern.err(result.error)
+    );
+  }
+
+  /**
+   * Handles the errors with the given tag with a (possibly async) handler,
+   * like `Result.catchTag`.
+   */
+  catchTag<K extends TagOf<E>, U, F>(
+    tag: K,
+    handler: (error: ErrorWithTag<E, K>) => Awaitable<Result<U, F>>
+  ): AsyncResult<T | U, Exclude<E, Tagged<K>> | F> {
+    return this.chainErr<T | U, Exclude<E, Tagged<K>> | F>((result) =>
+      result.isErr && hasTag(result.error, tag)
+        ? handler(result.error as ErrorWithTag<E, K>)
+        : (result as Result<T, Exclude<E, Tagged<K>>>)
+    );
+  }
+
+  /**
+   * Resolves to the Ok value or the result of the (possibly async) handler
+   * for the tag of the error, like `Result.matchError`.
+   */
+  matchError<U>(
+    this: AsyncResult<unknown, Tagged>,
+    handlers: ErrorHandlers<E, Awaitable<U>>
+  ): Promise<T | U> {
+    return this.promise.then((result) =>
+      result.matchError(handlers as ErrorHandlers<Tagged, Awaitable<U>>)
+    ) as Promise<T | U>;
+  }
+
+  /**
+   * Returns an async iterator over the Ok value, it yields once for ok
+   * and never for err.
+   *
+   * @example
+   * ```ts
+   * for await (const user of asyncResult(fetchUser(id)).iter()) {
+   *   console.log(user.name);
+   * }
+   * ```
+   */
+  iter(): AsyncIterableIterator<T> {
+    return lazySelectAsync(this.promise, (result) => result.iter());
+  }
+}
+
+/**
+ * Creates an `AsyncResult<T, E>` from a `Result` or a promise of a `Result`.
+ *
+ * @example
+ * ```ts
+ * const res = asyncResult(fetchUser()).map((user) => user.name);
+ * expect(await res.unwrap()).toBe("John");
+ * ```
+ */
+export const asyncResult = <T, E>(
+  result: Awaitable<Result<T, E>>
+): AsyncResult<T, E> => new AsyncResult(Promise.resolve(result));
+
+/**
+ * Creates an `AsyncResult` that resolves to `ok(value)`.
+ */
+export const okAsync = <T>(value: T): AsyncResult<T, any> =>
+  asyncResult(ok(value));
+
+/**
+ * Creates an `AsyncResult` that resolves to `err(error)`.
+ */
+export const errAsync = <E>(error: E): AsyncResult<any, E> =>
+  asyncResult(err(error));
@@ -0,0 +1,49 @@
+import { describe, expect, expectTypeOf, test, vitest } from "vitest";
+import { ContextError } from "./contextError";
+
+describe("ContextError", () => {
+  const root = new TypeError("ENOENT");
+  const error = new ContextError(
+    "loading user config",
+    new ContextError("reading the config file", root)
+  );
+
+  test("keeps the wrapped error as the cause", () => {
+    expect(error).toBeInstanceOf(Error);
+    expect(error._tag).toBe("ContextError");
+    expect(error.name).toBe("ContextError");
+    expect(error.message).toBe("loading user config");
+    expect(error.cause.message).toBe("reading the config file");
+    expect(error.cause.cause).toBe(root);
+  });
+
+  test("rootCause", () => {
+    expectTypeOf(error.rootCause()).toEqualTypeOf<TypeError>();
+    expect(error.rootCause()).toBe(root);
+    expect(new ContextError("parsing", "unexpected token").rootCause()).toBe(
+      "unexpected token"
+    );
+  });
+
+  test("chain", () => {
+    expect(error.chain()).toEqual([error, error.cause, root]);
+    expect(error.chain().map(String)).toEqual([
+      "ContextError: loading user config",
+      "ContextError: reading the config file",
+      "TypeError: ENOENT",
+    ]);
+  });
+
+  test("chain goes through the layers of another copy of the package", async () => {
+    vitest.resetModules();
+    const copy = await import("./contextError");
+    const mixed = new ContextError(
+      "loading user config",
+      new copy.ContextError("reading the config file", root)
+    );
+
+    expect(copy.ContextError).not.toBe(ContextError);
+    expect(mixed.rootCause()).toBe(root);
+    expect(mixed.chain()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,67 @@
+import { contextErrorBrand, hasBrand } from "../brand";
+
+/*
+ * Errors wrapped with a message describing what was being done when they
+ * happened, added by `context` and `withContext` as the error bubbles up.
+ * Every layer keeps the error it wraps as its `cause`.
+ */
+
+/**
+ * The error at the bottom of a chain of `ContextError`s.
+ *
+ * @example
+ * ```ts
+ * type A = RootCause<ContextError<ContextError<FsError>>>; // FsError
+ * ```
+ */
+export type RootCause<E> = E extends ContextError<infer C> ? RootCause<C> : E;
+
+/**
+ * An error with a message describing what was being done when it happened.
+ *
+ * @example
+ * ```ts
+ * const error = readFile(path) // Result<string, FsError>
+ *   .context("reading the config file")
+ *   .context("loading user config")
+ *   .unwrapErr();
+ *
+ * error.message; // "loading user config"
+ * error.rootCause(); // FsError
+ * error.chain().map(String);
+ * // ["ContextError: loading user config", "ContextError: reading the config file", "FsError: ..."]
+ * ```
+ */
+export class ContextError<E = unknown> extends Error {
+  readonly name = "ContextError";
+  readonly _tag = "ContextError";
+
+  constructor(message: string, readonly cause: E) {
+    super(message);
+  }
+
+  get [contextErrorBrand](): true {
+    return true;
+  }
+
+  /**
+   * Returns the first error of the chain that isn't a `ContextError`.
+   */
+  rootCause(): RootCause<E> {
+    return this.chain().pop() as RootCause<E>;
+  }
+
+  /**
+   * Returns every layer of the chain, from this error to the root cause.
+   */
+  chain(): Array<ContextError<unknown> | RootCause<E>> {
+    const layers: unknown[] = [this];
+    let error: unknown = this;
+    // also the layers added by another copy of the package
+    while (hasBrand(error, contextErrorBrand)) {
+      error = (error as ContextError).cause;
+      layers.push(error);
+    }
+    return layers as Array<ContextError<unknown> | RootCause<E>>;
+  }
+}
@@ -1,6 +1,31 @@
 import { describe, expect, expectTypeOf, test, vitest } from "vitest";
-import { of, from, fromThrowable, Do, DoAsync, sequence } from "./fns";
-import { Result, err, ok } from "./result";
+import {
+  of,
+  from,
+  fromThrowable,
+  fromPromise,
+  tryAsync,
+  Do,
+  DoAsync,
+  equals,
+  gen,
+  genAsync,
+  sequence,
+  all,
+  allRecord,
+  any,
+  partition,
+  traverse,
+  fromSchema,
+  fromSchemaAsync,
+  oks,
+  errs,
+} from "./fns";
+import { AbortError } from "../abort";
+import { AsyncResult } from "./async";
+import { Option, none } from "../option/option";
+import { SchemaIssues, StandardSchemaV1 } from "../standardSchema";
+import { InferErr, Result, err, ok } from "./result";
 
 describe("Result fns", () => {
   test("of", () => {
@@ -58,6 +83,41 @@ describe("Result fns", () => {
     expect(b.unwrapErr()).toEqual(new Error("error"));
   });
 
+  test("fromPromise", async () => {
+    class SdkError {
+      constructor(readonly cause: unknown) {}
+    }
+
+    const resolved = fromPromise(Promise.resolve(42), (e) => new SdkError(e));
+    expectTypeOf(resolved).toEqualTypeOf<AsyncResult<number, SdkError>>();
+    expect(await resolved.unwrap()).toBe(42);
+
+    const rejected = await fromPromise(
+      Promise.reject("boom"),
+      (e) => new SdkError(e)
+    );
+    expect(rejected.unwrapErr()).toBeInstanceOf(SdkError);
+    expect(rejected.unwrapErr().cause).toBe("boom");
+  });
+
+  test("tryAsync", async () => {
+    const toMessage = (e: unknown) => (e instanceof Error ? e.message : `${e}`);
+
+    expect(await tryAsync(async () => 42, toMessage).unwrap()).toBe(42);
+    expect(await tryAsync(() => 42, toMessage).unwrap()).toBe(42);
+
+    const rejected = tryAsync(async () => {
+      throw new Error("async error");
+    }, toMessage);
+    expectTypeOf(rejected).toEqualTypeOf<AsyncResult<never, string>>();
+    expect(await rejected.unwrapErr()).toBe("async error");
+
+    const thrown = tryAsync((): Promise<number> => {
+      throw new Error("sync error");
+    }, toMessage);
+    expect(await thrown.unwrapErr()).toBe("sync error");
+  });
+
   test("Do", () => {
     const fn = vitest.fn();
     const res = Do(() => {
@@ -87,6 +147,44 @@ describe("Result fns", () => {
     expect(res.isErr).toBe(true);
     expect(fn).toHaveBeenCalledTimes(1);
   });
+
+  test("Do returns the error passed to bind", () => {
+    const res = Do(() => {
+      const a = (err("aaa") as Result<number, string>).bind();
+      return ok(a);
+    });
+
+    expect(res.unwrapErr()).toBe("aaa");
+  });
+
+  test("Do rethrows exceptions that don't come from bind", () => {
+    expect(() =>
+      Do(() => {
+        const a = ok(42).bind();
+        throw new TypeError("a bug");
+        return ok(a);
+      })
+    ).toThrow(TypeError);
+
+    expect(() =>
+      Do(() => {
+        throw "plain string";
+      })
+    ).toThrow("plain string");
+  });
+
+  test("Do rethrows the short-circuit of a nested Option bind", () => {
+    expect(() =>
+      Do(() => {
+        const a = (none as Option<number>).bind();
+        return ok(a);
+      })
+    ).toThrow(
+      new Error(
+        "called `Option.bind()` on `None` outside of an Option do block"
+      )
+    );
+  });
 });
 
 test("DoAsync", async () => {
@@ -106,6 +204,221 @@ test("DoAsync", async () => {
   expect(asyncFn).toHaveBeenCalledTimes(1);
 });
 
+test("Do and DoAsync infer the union of the returned errors", async () => {
+  const parse = (text: string): Result<number, "parse"> =>
+    text ? ok(text.length) : err("parse");
+  const save = (n: number): Result<string, "db"> =>
+    n > 1 ? ok(`saved ${n}`) : err("db");
+
+  const res = Do(() => {
+    const n = parse("a").bind();
+    return n > 0 ? save(n) : err("empty" as const);
+  });
+  expectTypeOf<InferErr<typeof res>>().toEqualTypeOf<"db" | "empty">();
+  expect(res.unwrapErr()).toBe("db");
+
+  const resAsync = await DoAsync(async () => {
+    const n = parse("abc").bind();
+    return n > 0 ? save(n) : err("empty" as const);
+  });
+  expectTypeOf<InferErr<typeof resAsync>>().toEqualTypeOf<"db" | "empty">();
+  expect(resAsync.unwrap()).toBe("saved 3");
+
+  const explicit = Do<string, "parse" | "db">(() => save(parse("").bind()));
+  expect(explicit.unwrapErr()).toBe("parse");
+});
+
+test("Do catches bind on results of another copy of the package", async () => {
+  vitest.resetModules();
+  const copy = await import("./result");
+
+  expect(Do(() => ok(copy.err("error").bind())).unwrapErr()).toBe("error");
+});
+
+test("DoAsync rethrows exceptions that don't come from bind", async () => {
+  await expect(
+    DoAsync(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      throw new TypeError("a bug");
+    })
+  ).rejects.toThrow(TypeError);
+});
+
+describe("DoAsync with a signal", () => {
+  test("resolves to an AbortError as soon as the signal is aborted", async () => {
+    const controller = new AbortController();
+    const after = vitest.fn();
+
+    const res = DoAsync(
+      async (signal) => {
+        expect(signal).toBe(controller.signal);
+        await new Promise(() => {});
+        after();
+        return ok(1) as Result<number, string>;
+      },
+      { signal: controller.signal }
+    );
+    controller.abort("cancelled");
+
+    expectTypeOf(res).resolves.toEqualTypeOf<
+      Result<number, string | AbortError>
+    >();
+    const error = (await res).unwrapErr() as AbortError;
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error.cause).toBe("cancelled");
+    expect(after).not.toHaveBeenCalled();
+  });
+
+  test("doesn't call the block if the signal is already aborted", async () => {
+    const fn = vitest.fn(async () => ok(1));
+
+    const res = await DoAsync(fn, { signal: AbortSignal.abort() });
+    expect(res.isErr).toBe(true);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  test("an AbortError thrown by a helper becomes an Err", async () => {
+    const controller = new AbortController();
+    const fetchUser = (signal: AbortSignal) =>
+      new Promise<Result<string, "db">>((_, reject) =>
+        signal.addEventListener("abort", () =>
+          reject(new DOMException("aborted", "AbortError"))
+        )
+      );
+
+    const res = DoAsync(
+      async (signal) => ok((await fetchUser(signal)).bind()),
+      { signal: controller.signal }
+    );
+    controller.abort(new Error("navigated away"));
+
+    expect((await res).unwrapErr()).toMatchObject({
+      _tag: "AbortError",
+      message: "navigated away",
+    });
+  });
+
+  test("bind stops the block when the pending await resolves after the abort", async () => {
+    const controller = new AbortController();
+    let resolveUser = (_: Result<string, "db">) => {};
+    const fetchUser = new Promise<Result<string, "db">>((resolve) => {
+      resolveUser = resolve;
+    });
+    const fetchPosts = vitest.fn(async (user: string) =>
+      ok([`${user}'s post`])
+    );
+
+    const res = DoAsync(
+      async (_, bind) => {
+        const user = await bind(fetchUser);
+        const posts = await bind(fetchPosts(user));
+        return ok({ user, posts });
+      },
+      { signal: controller.signal }
+    );
+    controller.abort();
+    expect((await res).unwrapErr()).toBeInstanceOf(AbortError);
+
+    resolveUser(ok("John"));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(fetchPosts).not.toHaveBeenCalled();
+  });
+
+  test("bind returns the Ok value or stops at an Err", async () => {
+    const res = await DoAsync(async (_, bind) => {
+      const a = await bind(ok(1) as Result<number, string>);
+      const b = await bind(
+        Promise.resolve(err("error") as Result<number, string>)
+      );
+      return ok(a + b);
+    });
+    expect(res.unwrapErr()).toBe("error");
+  });
+
+  test("resolves normally if the signal isn't aborted", async () => {
+    const res = await DoAsync(async () => ok(1), {
+      signal: new AbortController().signal,
+    });
+    expect(res.unwrap()).toBe(1);
+  });
+});
+
+describe("gen", () => {
+  type ParseError = { type: "parse" };
+  type DbError = { type: "db" };
+
+  const parse = (value: string): Result<number, ParseError> =>
+    isNaN(parseInt(value)) ? err({ type: "parse" }) : ok(parseInt(value));
+  const save = (value: number): Result<string, DbError> =>
+    value < 0 ? err({ type: "db" }) : ok(`saved ${value}`);
+
+  test("happy path", () => {
+    const res = gen(function* (bind) {
+      const a = yield* bind(parse("42"));
+      const b = yield* bind(save(a));
+      return b.toUpperCase();
+    });
+
+    expectTypeOf(res).toEqualTypeOf<Result<string, ParseError | DbError>>();
+    expect(res.unwrap()).toBe("SAVED 42");
+  });
+
+  test("short-circuits on the first err", () => {
+    const fn = vitest.fn();
+    const cleanup = vitest.fn();
+
+    const res = gen(function* (bind) {
+      try {
+        const a = yield* bind(parse("-1"));
+        yield* bind(save(a));
+        fn();
+        return a;
+      } finally {
+        cleanup();
+      }
+    });
+
+    expect(res.unwrapErr()).toEqual({ type: "db" });
+    expect(fn).not.toHaveBeenCalled();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  test("block without yields", () => {
+    const res = gen(function* () {
+      return 1;
+    });
+
+    expectTypeOf(res).toEqualTypeOf<Result<number, never>>();
+    expect(res.unwrap()).toBe(1);
+  });
+
+  test("genAsync", async () => {
+    const fetchNumber = async (value: string) => {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      return parse(value);
+    };
+    const fn = vitest.fn();
+
+    const res = await genAsync(async function* (bind) {
+      const a = yield* bind(await fetchNumber("1"));
+      const b = yield* bind(await fetchNumber("2"));
+      return save(a + b).unwrap();
+    });
+
+    expectTypeOf(res).toEqualTypeOf<Result<string, ParseError>>();
+    expect(res.unwrap()).toBe("saved 3");
+
+    const failed = await genAsync(async function* (bind) {
+      const a = yield* bind(await fetchNumber("a"));
+      fn();
+      return yield* bind(save(a));
+    });
+
+    expect(failed.unwrapErr()).toEqual({ type: "parse" });
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
+
 describe("sequence", () => {
   test("empty", () => {
     expect(sequence([]).unwrap()).toEqual([]);
@@ -119,3 +432,227 @@ describe("sequence", () => {
     expect(sequence([ok(42), err("error"), ok(43)]).isErr).toBe(true);
   });
 });
+
+describe("all", () => {
+  test("keeps tuple types", () => {
+    const res = all([
+      ok(1) as Result<number, string>,
+      ok("a") as Result<string, number>,
+    ]);
+
+    expectTypeOf(res).toEqualTypeOf<
+      Result<[number, string], string | number>
+    >();
+    expect(res.unwrap()).toEqual([1, "a"]);
+  });
+
+  test("iterables", () => {
+    expect(all(new Set([ok(1), ok(2)])).unwrap()).toEqual([1, 2]);
+    expect(all(new Set([ok(1), err("a"), err("b")])).unwrapErr()).toBe("a");
+  });
+
+  test("stops at the first Err", () => {
+    const fn = vitest.fn(() => ok(1));
+    function* results() {
+      yield err("error");
+      yield fn();
+    }
+
+    expect(all(results()).unwrapErr()).toBe("error");
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  test("records", () => {
+    const res = allRecord({
+      a: ok(1) as Result<number, string>,
+      b: ok("x") as Result<string, string>,
+    });
+
+    expectTypeOf(res).toEqualTypeOf<Result<{ a: number; b: string }, string>>();
+    expect(res.unwrap()).toEqual({ a: 1, b: "x" });
+    expect(allRecord({ a: ok(1), b: err("error") }).unwrapErr()).toBe("error");
+  });
+});
+
+describe("any", () => {
+  test("returns the first Ok", () => {
+    expect(any([err("a"), ok(1), ok(2)]).unwrap()).toBe(1);
+  });
+
+  test("collects all errors", () => {
+    expect(any([err("a"), err("b")]).unwrapErr()).toEqual(["a", "b"]);
+    expect(any([]).unwrapErr()).toEqual([]);
+  });
+});
+
+test("partition", () => {
+  const [values, errors] = partition([ok(1), err("a"), ok(2), err("b")]);
+
+  expect(values).toEqual([1, 2]);
+  expect(errors).toEqual(["a", "b"]);
+});
+
+describe("oks and errs", () => {
+  test("iterables", () => {
+    const results = [ok(1), err("a"), ok(2), err("b")];
+
+    expect([...oks(results)]).toEqual([1, 2]);
+    expect([...errs(results)]).toEqual(["a", "b"]);
+  });
+
+  test("async iterables", async () => {
+    async function* results() {
+      yield ok(1);
+      yield err("a");
+    }
+
+    const values: number[] = [];
+    for await (const value of oks(results())) {
+      values.push(value);
+    }
+    const errors: string[] = [];
+    for await (const error of errs(results())) {
+      errors.push(error);
+    }
+
+    expect(values).toEqual([1]);
+    expect(errors).toEqual(["a"]);
+  });
+});
+
+test("traverse", () => {
+  const fn = vitest.fn((value: string, _index: number) => {
+    const parsed = parseInt(value);
+    return isNaN(parsed) ? err(`${value} is not a number`) : ok(parsed);
+  });
+
+  expect(traverse(["1", "2"], fn).unwrap()).toEqual([1, 2]);
+  expect(fn).toHaveBeenLastCalledWith("2", 1);
+
+  fn.mockClear();
+  expect(traverse(["1", "a", "3"], fn).unwrapErr()).toBe("a is not a number");
+  expect(fn).toHaveBeenCalledTimes(2);
+
+  const mixed = traverse([1, 2], (x) =>
+    x > 1 ? (err(x) as Result<string, number>) : err("a" as const)
+  );
+  expectTypeOf(mixed).toEqualTypeOf<Result<any[], number | "a">>();
+  expect(mixed.unwrapErr()).toBe("a");
+});
+
+describe("fromSchema", () => {
+  type User = { name: string };
+
+  const userSchema: StandardSchemaV1<unknown, User> = {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: (value) =>
+        typeof value === "object" &&
+        value !== null &&
+        typeof (value as User).name === "string"
+          ? { value: value as User }
+          : {
+              issues: [
+                { message: "Required", path: [{ key: "name" }] },
+                { message: "Unknown", path: ["user", 0] },
+              ],
+            },
+    },
+  };
+
+  const asyncSchema: StandardSchemaV1<unknown, number> = {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: async (value) =>
+        typeof value === "number" ? { value } : { issues: [] },
+    },
+  };
+
+  test("valid input", () => {
+    const res = fromSchema(userSchema)({ name: "John" });
+
+    expectTypeOf(res).toEqualTypeOf<Result<User, SchemaIssues>>();
+    expect(res.unwrap()).toEqual({ name: "John" });
+  });
+
+  test("keeps the issues with their paths", () => {
+    expect(fromSchema(userSchema)({}).unwrapErr()).toEqual([
+      { message: "Required", path: ["name"] },
+      { message: "Unknown", path: ["user", 0] },
+    ]);
+  });
+
+  test("async schemas", async () => {
+    expect(() => fromSchema(asyncSchema)(1)).toThrow(TypeError);
+
+    const parse = fromSchemaAsync(asyncSchema);
+    expectTypeOf(parse(1)).toEqualTypeOf<AsyncResult<number, SchemaIssues>>();
+    expect((await parse(1)).unwrap()).toBe(1);
+    expect((await parse("1")).unwrapErr()).toEqual([
+      { message: "Invalid value", path: [] },
+    ]);
+    expect((await fromSchemaAsync(userSchema)({})).unwrapErr()).toHaveLength(2);
+  });
+});
+
+describe("equals", () => {
+  test("variants", () => {
+    expect(equals(ok(1), ok(1))).toBe(true);
+    expect(equals(err("a"), err("a"))).toBe(true);
+    expect(equals(ok(1), ok(2))).toBe(false);
+    expect(equals(err("a"), err("b"))).toBe(false);
+    expect(equals(ok(1), err(1))).toBe(false);
+  });
+
+  test("compares structurally by default", () => {
+    expect(equals(ok({ a: [1] }), ok({ a: [1] }))).toBe(true);
+    expect(equals(err({ code: 1 }), err({ code: 1 }))).toBe(true);
+    expect(equals(err(new Error("a")), err(new Error("a")))).toBe(true);
+    expect(equals(err(new Error("a")), err(new TypeError("a")))).toBe(false);
+  });
+
+  test("matches set members and map keys structurally", () => {
+    expect(equals(ok(new Set([{ a: 1 }])), ok(new Set([{ a: 1 }])))).toBe(true);
+    expect(equals(ok(new Set([{ a: 1 }])), ok(new Set([{ a: 2 }])))).toBe(
+      false
+    );
+    expect(
+      equals(ok(new Set([{ a: 1 }, { a: 1 }])), ok(new Set([{ a: 1 }, 1])))
+    ).toBe(false);
+    expect(
+      equals(ok(new Map([[{ id: 1 }, "a"]])), ok(new Map([[{ id: 1 }, "a"]])))
+    ).toBe(true);
+    expect(
+      equals(ok(new Map([[{ id: 1 }, "a"]])), ok(new Map([[{ id: 1 }, "b"]])))
+    ).toBe(false);
+  });
+
+  test("compares cyclic values", () => {
+    const cyclic = (name: string) => {
+      const node: any = { name };
+      node.self = ok(node);
+      return node;
+    };
+
+    expect(equals(ok(cyclic("a")), ok(cyclic("a")))).toBe(true);
+    expect(equals(ok(cyclic("a")), ok(cyclic("b")))).toBe(false);
+  });
+
+  test("custom comparators", () => {
+    const a: Result<string, Error> = err(new Error("a"));
+    const b: Result<string, Error> = err(new Error("b"));
+    const sameName = (x: Error, y: Error) => x.name === y.name;
+
+    expect(equals(a, b)).toBe(false);
+    expect(equals(a, b, undefined, sameName)).toBe(true);
+    expect(
+      equals(
+        ok("abc"),
+        ok("ABC"),
+        (x, y) => x.toLowerCase() === y.toLowerCase()
+      )
+    ).toBe(true);
+  });
+});
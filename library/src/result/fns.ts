@@ -1,4 +1,21 @@
-import { Result, err, ok } from "./result";
+import { deepEqual } from "../equal";
+import { lazyFlatMap } from "../iterables";
+import {
+  AbortError,
+  AbortOptions,
+  isAbort,
+  neverAborted,
+  raceAbort,
+} from "../abort";
+import { ShortCircuit, isShortCircuit } from "../shortCircuit";
+import {
+  InferSchemaOutput,
+  SchemaIssues,
+  StandardSchemaV1,
+  toSchemaIssues,
+} from "../standardSchema";
+import { AsyncResult, Awaitable, asyncResult } from "./async";
+import { InferErr, InferOk, Result, ResultYield, err, ok } from "./result";
 
 export const of = <T, E>(value: T, error: E): Result<NonNullable<T>, E> =>
   value === null || typeof value === "undefined"
@@ -27,22 +44,484 @@ export const fromThrowable = <T, E extends Error>(
   }
 };
 
-export function Do<T, E>(fn: () => Result<T, E>): Result<T, E> {
+/**
+ * Converts a promise into an `AsyncResult`. A resolved value becomes `Ok`,
+ * a rejection is passed through `mapError` and becomes `Err`.
+ *
+ * @example
+ * ```ts
+ * const user = await fromPromise(sdk.getUser(id), (e) => new SdkError(e));
+ * // user: Result<User, SdkError>
+ * ```
+ * @see
+ * If the promise is created by a function that can also throw synchronously use {@link tryAsync}
+ */
+export const fromPromise = <T, E>(
+  promise: PromiseLike<T>,
+  mapError: (error: unknown) => E
+): AsyncResult<T, E> =>
+  asyncResult(
+    Promise.resolve(promise).then(
+      (value) => ok(value),
+      (error) => err(mapError(error))
+    )
+  );
+
+/**
+ * Calls a (possibly async) function and converts its outcome into an `AsyncResult`.
+ * Both rejections and synchronous exceptions are passed through `mapError` and become `Err`.
+ *
+ * @example
+ * ```ts
+ * const body = await tryAsync(
+ *   () => fetch(url).then((res) => res.json()),
+ *   (e) => ({ type: "network", cause: e } as const)
+ * );
+ * ```
+ */
+export const tryAsync = <T, E>(
+  fn: () => T | PromiseLike<T>,
+  mapError: (error: unknown) => E
+): AsyncResult<T, E> => {
+  try {
+    return fromPromise(Promise.resolve(fn()), mapError);
+  } catch (e) {
+    return asyncResult(err(mapError(e)));
+  }
+};
+
+/**
+ * Creates a parser from a schema that implements the Standard Schema interface
+ * (zod, valibot, arktype, ...). The parser returns the output of the schema or
+ * all of the issues with their paths.
+ * Throws a `TypeError` if the schema validates asynchronously, use {@link fromSchemaAsync} for those.
+ *
+ * @example
+ * ```ts
+ * const parseUser = fromSchema(z.object({ name: z.string() }));
+ * expect(parseUser({ name: "John" }).unwrap()).toEqual({ name: "John" });
+ * expect(parseUser({}).unwrapErr()[0].path).toEqual(["name"]);
+ * ```
+ */
+export const fromSchema =
+  <S extends StandardSchemaV1>(schema: S) =>
+  (input: unknown): Result<InferSchemaOutput<S>, SchemaIssues> => {
+    const result = schema["~standard"].validate(input);
+    if (result instanceof Promise) {
+      throw new TypeError(
+        "Schema validation must be synchronous, use fromSchemaAsync instead"
+      );
+    }
+    return result.issues
+      ? err(toSchemaIssues(result.issues))
+      : ok(result.value as InferSchemaOutput<S>);
+  };
+
+/**
+ * Like {@link fromSchema}, but for schemas that may validate asynchronously.
+ *
+ * @example
+ * ```ts
+ * const parseUser = fromSchemaAsync(UserSchema);
+ * const user = await parseUser(await request.json());
+ * ```
+ */
+export const fromSchemaAsync =
+  <S extends StandardSchemaV1>(schema: S) =>
+  (input: unknown): AsyncResult<InferSchemaOutput<S>, SchemaIssues> =>
+    asyncResult(
+      Promise.resolve(schema["~standard"].validate(input)).then((result) =>
+        result.issues
+          ? err(toSchemaIssues(result.issues))
+          : ok(result.value as InferSchemaOutput<S>)
+      )
+    );
+
+/**
+ * Lets you simulate a do-notation known from functional languages
+ * with the Result monad.
+ *
+ * Calling `bind` on an `Err` stops the block and that `Err` is returned.
+ * Any other exception thrown inside of the block is rethrown,
+ * so bugs don't turn into typed errors.
+ *
+ * The error type is the union of the errors of the returned results. The errors
+ * of `bind` can't be inferred, pass the types explicitly (`Do<T, E>`) to include them.
+ *
+ * @example
+ * ```ts
+ * const res = Do(() => {
+ *   const a = parse(text).bind();
+ *   const b = validate(a).bind();
+ *   return ok(b);
+ * });
+ * ```
+ */
+export function Do<R extends Result<any, any>>(
+  fn: () => R
+): Result<InferOk<R>, InferErr<R>>;
+export function Do<T, E>(fn: () => Result<T, E>): Result<T, E>;
+export function Do(fn: () => Result<any, any>): Result<any, any> {
   try {
     return fn();
   } catch (e) {
-    return err(e as E);
+    if (isShortCircuit(e, "err")) {
+      return err(e.error);
+    }
+    throw e;
   }
 }
+/**
+ * The `bind` passed to the block of `DoAsync`. It awaits the result and
+ * returns its Ok value like `Result.bind`, but once the signal of the block
+ * is aborted it stops the block instead, so the steps after it don't run.
+ */
+export type BindAsync = <T>(
+  result: Awaitable<Result<T, unknown>>
+) => Promise<T>;
+
+const bindAsync =
+  (signal: AbortSignal): BindAsync =>
+  async (result) => {
+    const awaited = await result;
+    if (signal.aborted) {
+      throw new ShortCircuit("err", new AbortError(signal.reason));
+    }
+    return awaited.bind();
+  };
+
+/**
+ * `Do` for async blocks. With a `signal`, aborting it resolves the block to
+ * `Err(AbortError)` right away, without waiting for the pending `await`.
+ * The block gets the signal, to forward it to `fetch` and other async helpers,
+ * and a `bind` that stops the block at the next step once the signal is aborted,
+ * even if the pending `await` resolves later. An `AbortError` thrown by
+ * the helpers becomes `Err(AbortError)` too.
+ *
+ * @example
+ * ```ts
+ * const res = await DoAsync(
+ *   async (signal, bind) => {
+ *     const user = await bind(fetchUser(id, { signal }));
+ *     const posts = await bind(fetchPosts(user, { signal }));
+ *     return ok({ user, posts });
+ *   },
+ *   { signal: AbortSignal.timeout(5000) }
+ * );
+ * // res: Result<{ user: User; posts: Post[] }, FetchError | AbortError>
+ * ```
+ */
+export async function DoAsync<R extends Result<any, any>>(
+  fn: (signal: AbortSignal, bind: BindAsync) => Promise<R>,
+  options: AbortOptions
+): Promise<Result<InferOk<R>, InferErr<R> | AbortError>>;
+export async function DoAsync<R extends Result<any, any>>(
+  fn: (signal: AbortSignal, bind: BindAsync) => Promise<R>
+): Promise<Result<InferOk<R>, InferErr<R>>>;
+export async function DoAsync<T, E>(
+  fn: (signal: AbortSignal, bind: BindAsync) => Promise<Result<T, E>>,
+  options: AbortOptions
+): Promise<Result<T, E | AbortError>>;
 export async function DoAsync<T, E>(
-  fn: () => Promise<Result<T, E>>
-): Promise<Result<T, E>> {
+  fn: (signal: AbortSignal, bind: BindAsync) => Promise<Result<T, E>>
+): Promise<Result<T, E>>;
+export async function DoAsync(
+  fn: (signal: AbortSignal, bind: BindAsync) => Promise<Result<any, any>>,
+  { signal = neverAborted() }: AbortOptions = {}
+): Promise<Result<any, any>> {
+  if (signal.aborted) {
+    return err(new AbortError(signal.reason));
+  }
   try {
-    return await fn();
+    return await raceAbort(fn(signal, bindAsync(signal)), signal);
   } catch (e) {
-    return err(e as E);
+    if (isShortCircuit(e, "err")) {
+      return err(e.error);
+    }
+    if (isAbort(e, signal)) {
+      return err(new AbortError(signal.reason));
+    }
+    throw e;
   }
 }
 
-export const sequence = <T, E>(results: Result<T, E>[]): Result<T[], E> =>
-  Do(() => ok(results.map((r) => r.bind())));
+type YieldedErr<Y> = Y extends { variant: "err"; error: infer E } ? E : never;
+
+/**
+ * The `bind` passed to the block of `gen` and `genAsync`. Use it with `yield*`
+ * to get the Ok value of a result, an `Err` stops the block.
+ */
+export type GenBind = <T, E>(
+  result: Result<T, E>
+) => Generator<ResultYield<T, E>, T, any>;
+
+const genBind: GenBind = function* (result) {
+  return yield result.isOk
+    ? { variant: "ok", value: result.value }
+    : { variant: "err", error: result.error };
+};
+
+/**
+ * Lets you simulate a do-notation with generator functions.
+ * Inside of the block use `yield* bind(result)` to access the Ok value of a result.
+ * If any of the bound results is an `Err`, the block stops and that
+ * error is returned. The returned value of the block is wrapped in `Ok`.
+ *
+ * The error type is the union of the errors of every bound result.
+ *
+ * @example
+ * ```ts
+ * const res = gen(function* (bind) {
+ *   const config = yield* bind(parseConfig(text)); // Result<Config, ParseError>
+ *   const user = yield* bind(loadUser(config.userId)); // Result<User, DbError>
+ *   return user.name;
+ * });
+ * // res: Result<string, ParseError | DbError>
+ * ```
+ */
+export function gen<Y extends ResultYield<any, any>, T>(
+  fn: (bind: GenBind) => Generator<Y, T, any>
+): Result<T, YieldedErr<Y>> {
+  const iterator = fn(genBind);
+  let state = iterator.next();
+  while (!state.done) {
+    const result = state.value;
+    if (result.variant === "err") {
+      iterator.return(undefined as T);
+      return err(result.error);
+    }
+    state = iterator.next(result.value);
+  }
+  return ok(state.value);
+}
+
+/**
+ * Async version of {@link gen}. The block is an `async function*`,
+ * so promises can be awaited in between the `yield*`s.
+ *
+ * @example
+ * ```ts
+ * const res = await genAsync(async function* (bind) {
+ *   const user = yield* bind(await fetchUser(id));
+ *   const team = yield* bind(await fetchTeam(user.teamId));
+ *   return team.name;
+ * });
+ * ```
+ */
+export async function genAsync<Y extends ResultYield<any, any>, T>(
+  fn: (bind: GenBind) => AsyncGenerator<Y, T, any>
+): Promise<Result<T, YieldedErr<Y>>> {
+  const iterator = fn(genBind);
+  let state = await iterator.next();
+  while (!state.done) {
+    const result = state.value;
+    if (result.variant === "err") {
+      await iterator.return(undefined as T);
+      return err(result.error);
+    }
+    state = await iterator.next(result.value);
+  }
+  return ok(state.value);
+}
+
+/**
+ * Turns a collection of results into a result of the collection of their values.
+ * Returns the first `Err` if there is any. Tuples keep their types.
+ *
+ * @example
+ * ```ts
+ * const res = all([ok(1), ok("a")] as [Result<number, string>, Result<string, string>]);
+ * // res: Result<[number, string], string>
+ * expect(res.unwrap()).toEqual([1, "a"]);
+ * expect(all(new Set([ok(1), err("error")])).unwrapErr()).toBe("error");
+ * ```
+ */
+export function all<R extends readonly Result<any, any>[] | []>(
+  results: R
+): Result<{ -readonly [K in keyof R]: InferOk<R[K]> }, InferErr<R[number]>>;
+export function all<R extends Result<any, any>>(
+  results: Iterable<R>
+): Result<InferOk<R>[], InferErr<R>>;
+export function all(results: Iterable<Result<any, any>>): Result<any[], any> {
+  const values: any[] = [];
+  for (const result of results) {
+    if (result.isErr) {
+      return err(result.error);
+    }
+    values.push(result.value);
+  }
+  return ok(values);
+}
+
+/**
+ * @alias all
+ */
+export const sequence = all;
+
+/**
+ * Turns a record of results into a result of a record of their values.
+ * Returns the first `Err` if there is any.
+ *
+ * @example
+ * ```ts
+ * const res = allRecord({ a: ok(1), b: ok("x") });
+ * expect(res.unwrap()).toEqual({ a: 1, b: "x" });
+ * ```
+ */
+export const allRecord = <R extends Record<string, Result<any, any>>>(
+  results: R
+): Result<{ [K in keyof R]: InferOk<R[K]> }, InferErr<R[keyof R]>> => {
+  const values: Record<string, unknown> = {};
+  for (const key of Object.keys(results)) {
+    const result = results[key];
+    if (result.isErr) {
+      return err(result.error);
+    }
+    values[key] = result.value;
+  }
+  return ok(values as { [K in keyof R]: InferOk<R[K]> });
+};
+
+/**
+ * Returns the first `Ok` of the collection. If there is none,
+ * returns an `Err` with all of the errors.
+ *
+ * @alias firstOk
+ *
+ * @example
+ * ```ts
+ * expect(any([err("a"), ok(1), ok(2)]).unwrap()).toBe(1);
+ * expect(any([err("a"), err("b")]).unwrapErr()).toEqual(["a", "b"]);
+ * ```
+ */
+export const any = <T, E>(results: Iterable<Result<T, E>>): Result<T, E[]> => {
+  const errors: E[] = [];
+  for (const result of results) {
+    if (result.isOk) {
+      return ok(result.value);
+    }
+    errors.push(result.error);
+  }
+  return err(errors);
+};
+
+/**
+ * @alias any
+ */
+export const firstOk = any;
+
+/**
+ * Splits a collection of results into the values of the `Ok`s and the errors of the `Err`s.
+ *
+ * @example
+ * ```ts
+ * const [values, errors] = partition([ok(1), err("a"), ok(2)]);
+ * expect(values).toEqual([1, 2]);
+ * expect(errors).toEqual(["a"]);
+ * ```
+ */
+export const partition = <T, E>(
+  results: Iterable<Result<T, E>>
+): [T[], E[]] => {
+  const values: T[] = [];
+  const errors: E[] = [];
+  for (const result of results) {
+    if (result.isOk) {
+      values.push(result.value);
+    } else {
+      errors.push(result.error);
+    }
+  }
+  return [values, errors];
+};
+
+/**
+ * Lazily yields the values of the `Ok`s of a sync or async iterable, skipping the `Err`s.
+ *
+ * @example
+ * ```ts
+ * expect([...oks([ok(1), err("a"), ok(2)])]).toEqual([1, 2]);
+ * ```
+ */
+export function oks<T, E>(results: Iterable<Result<T, E>>): IterableIterator<T>;
+export function oks<T, E>(
+  results: AsyncIterable<Result<T, E>>
+): AsyncIterableIterator<T>;
+export function oks<T, E>(
+  results: Iterable<Result<T, E>> | AsyncIterable<Result<T, E>>
+): IterableIterator<T> | AsyncIterableIterator<T> {
+  return lazyFlatMap(results, (result) => result.iter());
+}
+
+/**
+ * Lazily yields the errors of the `Err`s of a sync or async iterable, skipping the `Ok`s.
+ *
+ * @example
+ * ```ts
+ * expect([...errs([ok(1), err("a"), ok(2)])]).toEqual(["a"]);
+ * ```
+ */
+export function errs<T, E>(
+  results: Iterable<Result<T, E>>
+): IterableIterator<E>;
+export function errs<T, E>(
+  results: AsyncIterable<Result<T, E>>
+): AsyncIterableIterator<E>;
+export function errs<T, E>(
+  results: Iterable<Result<T, E>> | AsyncIterable<Result<T, E>>
+): IterableIterator<E> | AsyncIterableIterator<E> {
+  return lazyFlatMap(results, (result) => (result.isErr ? [result.error] : []));
+}
+
+/**
+ * Maps every item of a collection to a result and collects their values.
+ * Stops at, and returns, the first `Err`.
+ *
+ * @example
+ * ```ts
+ * const res = traverse(["1", "2"], (value) => parse(value));
+ * expect(res.unwrap()).toEqual([1, 2]);
+ * ```
+ */
+export const traverse = <A, R extends Result<any, any>>(
+  items: Iterable<A>,
+  f: (item: A, index: number) => R
+): Result<InferOk<R>[], InferErr<R>> => {
+  const values: InferOk<R>[] = [];
+  let index = 0;
+  for (const item of items) {
+    const result = f(item, index++);
+    if (result.isErr) {
+      return err(result.error);
+    }
+    values.push(result.value);
+  }
+  return ok(values);
+};
+
+/**
+ * Compares two results. They are equal if they are of the same variant and
+ * their values (compared with `eq`) or errors (compared with `eqErr`) are equal.
+ * By default both are compared structurally.
+ *
+ * @example
+ * ```ts
+ * expect(equals(ok({ a: 1 }), ok({ a: 1 }))).toBe(true)
+ * expect(equals(ok(1), err(1))).toBe(false)
+ * expect(equals(err(new Error("a")), err(new Error("b")), undefined, (a, b) => a.name === b.name)).toBe(true)
+ * ```
+ */
+export const equals = <T, E>(
+  a: Result<T, E>,
+  b: Result<T, E>,
+  eq: (a: T, b: T) => boolean = deepEqual,
+  eqErr: (a: E, b: E) => boolean = deepEqual
+): boolean => {
+  if (a.isOk && b.isOk) {
+    return eq(a.value, b.value);
+  }
+  if (a.isErr && b.isErr) {
+    return eqErr(a.error, b.error);
+  }
+  return false;
+};
@@ -1,2 +1,20 @@
 export * from "./result";
 export * from "./fns";
+export * from "./async";
+export * from "./pipeable";
+export * from "./validation";
+export * from "./taggedError";
+export * from "./contextError";
+export * from "./retry";
+export { AbortError } from "../abort";
+export type { AbortOptions } from "../abort";
+export { resultFromJSON as fromJSON, reviver } from "../json";
+export { pipe, flow } from "../pipe";
+export { matchWith, P } from "../match";
+export type { Matcher, Pattern, Wildcard } from "../match";
+export type {
+  InferSchemaOutput,
+  SchemaIssue,
+  SchemaIssues,
+  StandardSchemaV1,
+} from "../standardSchema";
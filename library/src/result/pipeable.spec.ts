@@ -0,0 +1,194 @@
+import { describe, expect, expectTypeOf, test, vitest } from "vitest";
+import { flow, pipe } from "../pipe";
+import { of } from "./fns";
+import * as R from "./pipeable";
+import { Result, err, ok } from "./result";
+import { none, some } from "../option/option";
+import { TaggedError } from "./taggedError";
+import { ContextError } from "./contextError";
+
+describe("Result pipeable functions", () => {
+  const okVariant = ok(42) as Result<number, string>;
+  const errVariant = err("error") as Result<number, string>;
+
+  test("data-first and data-last calls give the same result", () => {
+    const inc = (x: number) => x + 1;
+
+    expect(R.map(okVariant, inc).unwrap()).toBe(43);
+    expect(R.map(inc)(okVariant).unwrap()).toBe(43);
+    expect(R.map(errVariant, inc).unwrapErr()).toBe("error");
+    expect(R.map(inc)(errVariant).unwrapErr()).toBe("error");
+  });
+
+  test("pipe", () => {
+    const res = pipe(
+      okVariant,
+      R.map((x) => x + 1),
+      R.mapErr((e) => e.length),
+      R.match({ ok: (x) => `ok ${x}`, err: (e) => `err ${e}` })
+    );
+
+    expectTypeOf(res).toEqualTypeOf<string>();
+    expect(res).toBe("ok 43");
+
+    expect(
+      pipe(
+        errVariant,
+        R.map((x) => x + 1),
+        R.unwrapOr(0)
+      )
+    ).toBe(0);
+  });
+
+  test("flow", () => {
+    const parse = flow(
+      (value: string | null) => of(value, "missing"),
+      R.andThen((value) => {
+        const parsed = parseInt(value);
+        return isNaN(parsed) ? err("not a number") : ok(parsed);
+      }),
+      R.unwrapOrElse(() => -1)
+    );
+
+    expect(parse("12")).toBe(12);
+    expect(parse("abc")).toBe(-1);
+    expect(parse(null)).toBe(-1);
+  });
+
+  test("isOkAnd and isErrAnd", () => {
+    expect(R.isOkAnd(okVariant, (x) => x === 42)).toBe(true);
+    expect(R.isOkAnd((x: number) => x === 42)(errVariant)).toBe(false);
+    expect(R.isErrAnd(errVariant, (e) => e === "error")).toBe(true);
+    expect(R.isErrAnd((e: string) => e === "error")(okVariant)).toBe(false);
+  });
+
+  test("okOption and errOption", () => {
+    expect(R.okOption(okVariant).unwrap()).toBe(42);
+    expect(R.okOption(errVariant).isNone).toBe(true);
+    expect(R.errOption(errVariant).unwrap()).toBe("error");
+    expect(R.errOption(okVariant).isNone).toBe(true);
+  });
+
+  test("expect, unwrap and their Err counterparts", () => {
+    expect(R.expect(okVariant, "message")).toBe(42);
+    expect(() => R.expect("message")(errVariant)).toThrow();
+    expect(R.unwrap(okVariant)).toBe(42);
+    expect(R.expectErr("message")(errVariant)).toBe("error");
+    expect(() => R.expectErr(okVariant, "message")).toThrow("message");
+    expect(R.unwrapErr(errVariant)).toBe("error");
+  });
+
+  test("unwrapOr and unwrapOrElse", () => {
+    expect(R.unwrapOr(errVariant, 1)).toBe(1);
+    expect(R.unwrapOr(1)(okVariant)).toBe(42);
+    expect(R.unwrapOrElse(errVariant, () => 1)).toBe(1);
+  });
+
+  test("mapOr, mapOrElse and mapErr", () => {
+    const inc = (x: number) => x + 1;
+
+    expect(R.mapOr(okVariant, 0, inc)).toBe(43);
+    expect(R.mapOr(0, inc)(errVariant)).toBe(0);
+    expect(R.mapOrElse(() => 0, inc)(okVariant)).toBe(43);
+    expect(R.mapOrElse(errVariant, () => 0, inc)).toBe(0);
+    expect(R.mapErr(errVariant, (e) => e.length).unwrapErr()).toBe(5);
+  });
+
+  test("and, or and orElse", () => {
+    expect(R.and(okVariant, ok("a")).unwrap()).toBe("a");
+    expect(R.and(ok("a"))(errVariant).unwrapErr()).toBe("error");
+    expect(R.or(errVariant, ok(1)).unwrap()).toBe(1);
+    expect(R.or(ok(1))(okVariant).unwrap()).toBe(42);
+    expect(R.orElse(() => ok(1))(errVariant).unwrap()).toBe(1);
+  });
+
+  test("data-first and, flatMap and orElse widen the types", () => {
+    const other = err(1) as Result<boolean, number>;
+    expectTypeOf(R.and(okVariant, other)).toEqualTypeOf<
+      Result<boolean, string | number>
+    >();
+    expectTypeOf(R.flatMap(okVariant, () => other)).toEqualTypeOf<
+      Result<boolean, string | number>
+    >();
+    expectTypeOf(R.orElse(errVariant, () => other)).toEqualTypeOf<
+      Result<number | boolean, number>
+    >();
+    expect(R.flatMap(okVariant, () => other).unwrapErr()).toBe(1);
+  });
+
+  test("flatMap and andThen", () => {
+    expect(R.flatMap(okVariant, (x) => ok(x + 1)).unwrap()).toBe(43);
+    expect(R.andThen((x: number) => ok(x + 1))(errVariant).unwrapErr()).toBe(
+      "error"
+    );
+  });
+
+  test("tap", () => {
+    const fn = vitest.fn();
+    R.tap(okVariant, fn);
+    R.tap(fn)(errVariant);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(fn).toHaveBeenCalledWith(42);
+  });
+
+  test("flatten, transpose, okOr and okOrElse", () => {
+    expect(R.flatten(ok(err("inner"))).unwrapErr()).toBe("inner");
+    expect(
+      R.transpose(ok(some(1)))
+        .unwrap()
+        .unwrap()
+    ).toBe(1);
+    expect(pipe(ok(none), R.okOr("not found")).unwrapErr()).toBe("not found");
+    expect(R.okOr(ok(some(1)), "not found").unwrap()).toBe(1);
+    expect(R.okOrElse(() => "not found")(ok(none)).unwrapErr()).toBe(
+      "not found"
+    );
+  });
+
+  test("context and withContext", () => {
+    const res = pipe(
+      errVariant,
+      R.context("loading user"),
+      R.withContext(() => "loading the page")
+    );
+    expectTypeOf(res).toEqualTypeOf<
+      Result<number, ContextError<ContextError<string>>>
+    >();
+    expect(res.unwrapErr().message).toBe("loading the page");
+    expect(res.unwrapErr().rootCause()).toBe("error");
+    expect(R.context(okVariant, "loading user").unwrap()).toBe(42);
+    expect(
+      R.withContext(errVariant, (error) => `${error}!`).unwrapErr().message
+    ).toBe("error!");
+  });
+
+  test("catchTag and matchError", () => {
+    class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+    class Timeout extends TaggedError("Timeout") {}
+    const missing = err(new NotFound({ id: "1" })) as Result<
+      number,
+      NotFound | Timeout
+    >;
+
+    const res = pipe(
+      missing,
+      R.catchTag("NotFound", (error) => ok(error.id) as Result<string, never>)
+    );
+    expectTypeOf(res).toEqualTypeOf<Result<number | string, Timeout>>();
+    expect(res.unwrap()).toBe("1");
+    expect(R.catchTag(missing, "Timeout", () => ok(0)).isErr).toBe(true);
+
+    const message = pipe(
+      missing,
+      R.matchError({ NotFound: (error) => error.id, Timeout: () => "timeout" })
+    );
+    expectTypeOf(message).toEqualTypeOf<number | string>();
+    expect(message).toBe("1");
+    expect(
+      R.matchError(ok(1) as typeof missing, {
+        NotFound: () => 0,
+        Timeout: () => 0,
+      })
+    ).toBe(1);
+  });
+});
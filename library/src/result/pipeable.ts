@@ -0,0 +1,326 @@
+import { dual } from "../dual";
+import { Option } from "../option/option";
+import { ContextError } from "./contextError";
+import { Result } from "./result";
+import { ErrorHandlers, ErrorWithTag, TagOf, Tagged } from "./taggedError";
+
+/*
+ * Standalone versions of the Result methods. Every function can be called
+ * data-first (`map(res, f)`) or data-last (`map(f)(res)`), the latter
+ * being handy with `pipe` and `flow`.
+ */
+
+/**
+ * Standalone version of `Result.isOkAnd`.
+ */
+export const isOkAnd: {
+  <T>(predicate: (value: T) => boolean): <E>(self: Result<T, E>) => boolean;
+  <T, E>(self: Result<T, E>, predicate: (value: T) => boolean): boolean;
+} = dual(2, (self: Result<any, any>, predicate: any) =>
+  self.isOkAnd(predicate)
+);
+
+/**
+ * Standalone version of `Result.isErrAnd`.
+ */
+export const isErrAnd: {
+  <E>(predicate: (value: E) => boolean): <T>(self: Result<T, E>) => boolean;
+  <T, E>(self: Result<T, E>, predicate: (value: E) => boolean): boolean;
+} = dual(2, (self: Result<any, any>, predicate: any) =>
+  self.isErrAnd(predicate)
+);
+
+/**
+ * Standalone version of `Result.ok`, named differently so it doesn't clash
+ * with the `ok` constructor.
+ */
+export const okOption = <T, E>(self: Result<T, E>): Option<T> => self.ok();
+
+/**
+ * Standalone version of `Result.err`, named differently so it doesn't clash
+ * with the `err` constructor.
+ */
+export const errOption = <T, E>(self: Result<T, E>): Option<E> => self.err();
+
+/**
+ * Standalone version of `Result.expect`.
+ */
+export const expect: {
+  (message: string): <T, E>(self: Result<T, E>) => T;
+  <T, E>(self: Result<T, E>, message: string): T;
+} = dual(2, (self: Result<any, any>, message: string) => self.expect(message));
+
+/**
+ * Standalone version of `Result.unwrap`.
+ */
+export const unwrap = <T, E>(self: Result<T, E>): T => self.unwrap();
+
+/**
+ * Standalone version of `Result.expectErr`.
+ */
+export const expectErr: {
+  (message: string): <T, E>(self: Result<T, E>) => E;
+  <T, E>(self: Result<T, E>, message: string): E;
+} = dual(2, (self: Result<any, any>, message: string) =>
+  self.expectErr(message)
+);
+
+/**
+ * Standalone version of `Result.unwrapErr`.
+ */
+export const unwrapErr = <T, E>(self: Result<T, E>): E => self.unwrapErr();
+
+/**
+ * Standalone version of `Result.unwrapOr`.
+ *
+ * @example
+ * ```ts
+ * expect(pipe(err("error"), unwrapOr(1))).toBe(1)
+ * expect(unwrapOr(ok(42), 1)).toBe(42)
+ * ```
+ */
+export const unwrapOr: {
+  <T1>(defaultValue: T1): <T, E>(self: Result<T, E>) => T | T1;
+  <T, E, T1 extends T>(self: Result<T, E>, defaultValue: T1): T;
+} = dual(2, (self: Result<any, any>, defaultValue: any) =>
+  self.unwrapOr(defaultValue)
+);
+
+/**
+ * Standalone version of `Result.unwrapOrElse`.
+ */
+export const unwrapOrElse: {
+  <T1>(defaultValueFun: () => T1): <T, E>(self: Result<T, E>) => T | T1;
+  <T, E, T1 extends T>(self: Result<T, E>, defaultValueFun: () => T1): T;
+} = dual(2, (self: Result<any, any>, defaultValueFun: any) =>
+  self.unwrapOrElse(defaultValueFun)
+);
+
+/**
+ * Standalone version of `Result.map`.
+ *
+ * @example
+ * ```ts
+ * expect(pipe(ok(42), map((x) => x + 1)).unwrap()).toBe(43)
+ * expect(map(ok(42), (x) => x + 1).unwrap()).toBe(43)
+ * ```
+ */
+export const map: {
+  <T, U>(f: (value: T) => U): <E>(self: Result<T, E>) => Result<U, E>;
+  <T, E, U>(self: Result<T, E>, f: (value: T) => U): Result<U, E>;
+} = dual(2, (self: Result<any, any>, f: any) => self.map(f));
+
+/**
+ * Standalone version of `Result.mapOr`.
+ */
+export const mapOr: {
+  <T, U>(defaultValue: U, f: (value: T) => U): <E>(self: Result<T, E>) => U;
+  <T, E, U>(self: Result<T, E>, defaultValue: U, f: (value: T) => U): U;
+} = dual(3, (self: Result<any, any>, defaultValue: any, f: any) =>
+  self.mapOr(defaultValue, f)
+);
+
+/**
+ * Standalone version of `Result.mapOrElse`.
+ */
+export const mapOrElse: {
+  <T, U>(defaultValueFun: () => U, f: (arg: T) => U): <E>(
+    self: Result<T, E>
+  ) => U;
+  <T, E, U>(self: Result<T, E>, defaultValueFun: () => U, f: (arg: T) => U): U;
+} = dual(3, (self: Result<any, any>, defaultValueFun: any, f: any) =>
+  self.mapOrElse(defaultValueFun, f)
+);
+
+/**
+ * Standalone version of `Result.mapErr`.
+ */
+export const mapErr: {
+  <E, U>(f: (value: E) => U): <T>(self: Result<T, E>) => Result<T, U>;
+  <T, E, U>(self: Result<T, E>, f: (value: E) => U): Result<T, U>;
+} = dual(2, (self: Result<any, any>, f: any) => self.mapErr(f));
+
+/**
+ * Standalone version of `Result.context`.
+ *
+ * @example
+ * ```ts
+ * const config = pipe(
+ *   readFile(path),
+ *   andThen(parseConfig),
+ *   context("loading user config")
+ * );
+ * ```
+ */
+export const context: {
+  (message: string): <T, E>(self: Result<T, E>) => Result<T, ContextError<E>>;
+  <T, E>(self: Result<T, E>, message: string): Result<T, ContextError<E>>;
+} = dual(2, (self: Result<any, any>, message: string) => self.context(message));
+
+/**
+ * Standalone version of `Result.withContext`.
+ */
+export const withContext: {
+  <E>(f: (error: E) => string): <T>(
+    self: Result<T, E>
+  ) => Result<T, ContextError<E>>;
+  <T, E>(self: Result<T, E>, f: (error: E) => string): Result<
+    T,
+    ContextError<E>
+  >;
+} = dual(2, (self: Result<any, any>, f: any) => self.withContext(f));
+
+/**
+ * Standalone version of `Result.and`.
+ */
+export const and: {
+  <U, E1>(b: Result<U, E1>): <T, E>(self: Result<T, E>) => Result<U, E | E1>;
+  <T, E, U, E1>(self: Result<T, E>, b: Result<U, E1>): Result<U, E | E1>;
+} = dual(2, (self: Result<any, any>, b: any) => self.and(b));
+
+/**
+ * Standalone version of `Result.or`.
+ */
+export const or: {
+  <T1, F>(b: Result<T1, F>): <T, E>(self: Result<T, E>) => Result<T | T1, F>;
+  <T, E, T1, F>(self: Result<T, E>, b: Result<T1, F>): Result<T | T1, F>;
+} = dual(2, (self: Result<any, any>, b: any) => self.or(b));
+
+/**
+ * Standalone version of `Result.orElse`.
+ */
+export const orElse: {
+  <T1, F>(f: () => Result<T1, F>): <T, E>(
+    self: Result<T, E>
+  ) => Result<T | T1, F>;
+  <T, E, T1, F>(self: Result<T, E>, f: () => Result<T1, F>): Result<T | T1, F>;
+} = dual(2, (self: Result<any, any>, f: any) => self.orElse(f));
+
+/**
+ * Standalone version of `Result.flatMap`.
+ *
+ * @alias andThen
+ */
+export const flatMap: {
+  <T, U, E1>(f: (value: T) => Result<U, E1>): <E>(
+    self: Result<T, E>
+  ) => Result<U, E | E1>;
+  <T, E, U, E1>(self: Result<T, E>, f: (value: T) => Result<U, E1>): Result<
+    U,
+    E | E1
+  >;
+} = dual(2, (self: Result<any, any>, f: any) => self.flatMap(f));
+
+/**
+ * Standalone version of `Result.andThen`.
+ *
+ * @alias flatMap
+ */
+export const andThen = flatMap;
+
+/**
+ * Standalone version of `Result.tap`.
+ */
+export const tap: {
+  <T, F extends void | Promise<void>>(f: (value: T) => F): <E>(
+    self: Result<T, E>
+  ) => F;
+  <T, E, F extends void | Promise<void>>(
+    self: Result<T, E>,
+    f: (value: T) => F
+  ): F;
+} = dual(2, (self: Result<any, any>, f: any) => self.tap(f));
+
+/**
+ * Standalone version of `Result.match`.
+ */
+export const match: {
+  <T, E, U>(pattern: { ok: (value: T) => U; err: (value: E) => U }): (
+    self: Result<T, E>
+  ) => U;
+  <T, E, U>(
+    self: Result<T, E>,
+    pattern: { ok: (value: T) => U; err: (value: E) => U }
+  ): U;
+} = dual(2, (self: Result<any, any>, pattern: any) => self.match(pattern));
+
+/**
+ * Standalone version of `Result.catchTag`.
+ *
+ * @example
+ * ```ts
+ * const user = pipe(
+ *   findUser(id),
+ *   catchTag("NotFound", () => ok(guest))
+ * );
+ * ```
+ */
+export const catchTag: {
+  <E, K extends TagOf<E>, U, F>(
+    tag: K,
+    handler: (error: ErrorWithTag<E, K>) => Result<U, F>
+  ): <T>(self: Result<T, E>) => Result<T | U, Exclude<E, Tagged<K>> | F>;
+  <T, E, K extends TagOf<E>, U, F>(
+    self: Result<T, E>,
+    tag: K,
+    handler: (error: ErrorWithTag<E, K>) => Result<U, F>
+  ): Result<T | U, Exclude<E, Tagged<K>> | F>;
+} = dual(3, (self: Result<any, any>, tag: any, handler: any) =>
+  self.catchTag(tag, handler)
+);
+
+/**
+ * Standalone version of `Result.matchError`.
+ */
+export const matchError: {
+  <E extends Tagged, H extends ErrorHandlers<E, unknown>>(handlers: H): <T>(
+    self: Result<T, E>
+  ) => T | ReturnType<H[keyof H]>;
+  <T, E extends Tagged, H extends ErrorHandlers<E, unknown>>(
+    self: Result<T, E>,
+    handlers: H
+  ): T | ReturnType<H[keyof H]>;
+} = dual(2, (self: Result<any, any>, handlers: any) =>
+  self.matchError(handlers)
+);
+
+/**
+ * Standalone version of `Result.iter`.
+ */
+export const iter = <T, E>(self: Result<T, E>): IterableIterator<T> =>
+  self.iter();
+
+/**
+ * Standalone version of `Result.flatten`.
+ */
+export const flatten = <T, E, E1>(
+  self: Result<Result<T, E1>, E>
+): Result<T, E | E1> => self.flatten();
+
+/**
+ * Standalone version of `Result.transpose`.
+ */
+export const transpose = <T, E>(
+  self: Result<Option<T>, E>
+): Option<Result<T, E>> => self.transpose();
+
+/**
+ * Standalone version of `Result.okOr`.
+ *
+ * @example
+ * ```ts
+ * const user = pipe(findUser(id), okOr("not found" as const));
+ * ```
+ */
+export const okOr: {
+  <E1>(error: E1): <T, E>(self: Result<Option<T>, E>) => Result<T, E | E1>;
+  <T, E, E1>(self: Result<Option<T>, E>, error: E1): Result<T, E | E1>;
+} = dual(2, (self: Result<Option<any>, any>, error: any) => self.okOr(error));
+
+/**
+ * Standalone version of `Result.okOrElse`.
+ */
+export const okOrElse: {
+  <E1>(f: () => E1): <T, E>(self: Result<Option<T>, E>) => Result<T, E | E1>;
+  <T, E, E1>(self: Result<Option<T>, E>, f: () => E1): Result<T, E | E1>;
+} = dual(2, (self: Result<Option<any>, any>, f: any) => self.okOrElse(f));
@@ -1,5 +1,20 @@
 import { expect, test, describe, vitest, expectTypeOf } from "vitest";
-import { ErrVariant, OkVariant, Result, err, ok } from "./result";
+import { inspect } from "node:util";
+import {
+  Err,
+  ErrVariant,
+  Ok,
+  OkVariant,
+  Result,
+  err,
+  isErr,
+  isOk,
+  isResult,
+  ok,
+} from "./result";
+import { Option, none, some } from "../option/option";
+import { TaggedError } from "./taggedError";
+import { ContextError } from "./contextError";
 
 describe("Result", () => {
   const okVariant: Result<number, string> = ok(42);
@@ -78,6 +93,9 @@ describe("Result", () => {
     expect(okVariant.expect("error")).toBe(42);
     expectTypeOf(okVariant.expect("error")).toEqualTypeOf<number>();
     expect(() => errVariant.expect("error")).toThrow("error");
+    expect(() => err(new Error("cause")).expect("message")).toThrow(
+      expect.objectContaining({ message: "message", cause: new Error("cause") })
+    );
     expectTypeOf(errVariant.expect).toEqualTypeOf<(a: string) => number>();
   });
 
@@ -175,6 +193,35 @@ describe("Result", () => {
     expect(errVariant.flatMap((v) => err("error1")).unwrapErr()).toBe("error");
   });
 
+  test("andThen, and and orElse widen the types", () => {
+    class ParseError {
+      readonly tag = "parse";
+    }
+    class DbError {
+      readonly tag = "db";
+    }
+    const parse = (text: string): Result<number, ParseError> =>
+      text ? ok(text.length) : err(new ParseError());
+    const save = (n: number): Result<string, DbError> =>
+      n > 1 ? ok(`saved ${n}`) : err(new DbError());
+
+    const saved = parse("abc").andThen(save);
+    expectTypeOf(saved).toEqualTypeOf<Result<string, ParseError | DbError>>();
+    expect(saved.unwrap()).toBe("saved 3");
+    expect(parse("a").flatMap(save).unwrapErr()).toBeInstanceOf(DbError);
+    expect(parse("").andThen(save).unwrapErr()).toBeInstanceOf(ParseError);
+
+    expectTypeOf(parse("a").and(save(1))).toEqualTypeOf<
+      Result<string, ParseError | DbError>
+    >();
+    const fallback = parse("").orElse(() => ok("default"));
+    expectTypeOf(fallback).toEqualTypeOf<Result<number | string, any>>();
+    expect(fallback.unwrap()).toBe("default");
+    expectTypeOf(parse("").or(save(2))).toEqualTypeOf<
+      Result<number | string, DbError>
+    >();
+  });
+
   test("match", () => {
     const okVariant2 = okVariant as Result<number, string>;
     const errVariant2 = err("error") as Result<number, string>;
@@ -209,6 +256,258 @@ describe("Result", () => {
     expect(value).toBe(3);
   });
 
+  test("instanceof", () => {
+    expect(okVariant).toBeInstanceOf(Ok);
+    expect(errVariant).toBeInstanceOf(Err);
+    expect(okVariant).not.toBeInstanceOf(Err);
+    expect(ok(1)).not.toEqual(ok(2));
+    // vitest before 1.6 compares iterables by their items only, and errs have none
+    expect(err("a")).not.toBeErrWith("b");
+  });
+
+  test("methods are shared", () => {
+    expect(ok(1).map).toBe(ok(2).map);
+    expect(Object.keys(err("error")).sort()).toEqual(["error", "variant"]);
+  });
+
+  test("structuredClone", () => {
+    expect(structuredClone(err("error"))).toEqual({
+      variant: "err",
+      error: "error",
+    });
+  });
+
+  test("isResult", () => {
+    expect(isResult(okVariant)).toBe(true);
+    expect(isResult(errVariant)).toBe(true);
+    expect(isResult({ variant: "ok", value: 42 })).toBe(false);
+    expect(isResult(some(42))).toBe(false);
+    expect(isResult(null)).toBe(false);
+    expect(isResult("ok")).toBe(false);
+  });
+
+  test("isOk and isErr", () => {
+    const value: unknown = okVariant;
+
+    if (isOk(value)) {
+      expectTypeOf(value).toEqualTypeOf<OkVariant<unknown, unknown>>();
+    }
+    if (isErr(errVariant)) {
+      expectTypeOf(errVariant).toEqualTypeOf<ErrVariant<number, string>>();
+    }
+
+    expect(isOk(value)).toBe(true);
+    expect(isOk(errVariant)).toBe(false);
+    expect(isErr(errVariant)).toBe(true);
+    expect(isErr(okVariant)).toBe(false);
+    expect(isErr(new Error("error"))).toBe(false);
+  });
+
+  test("guards and equals recognize results of another copy of the package", async () => {
+    vitest.resetModules();
+    const copy = await import("./result");
+    const { equals } = await import("./fns");
+
+    expect(copy.Ok).not.toBe(Ok);
+    expect(isResult(copy.ok(42))).toBe(true);
+    expect(isOk(copy.ok(42))).toBe(true);
+    expect(isErr(copy.err("error"))).toBe(true);
+    expect(isErr(copy.ok(42))).toBe(false);
+    expect(isResult(some(42).okOr("error"))).toBe(true);
+    expect(equals(ok({ a: [1] }), copy.ok({ a: [1] }))).toBe(true);
+    expect(equals(ok(1), copy.err(1))).toBe(false);
+  });
+
+  test("iter", () => {
+    expect([...ok(42).iter()]).toEqual([42]);
+    expect([...err("error").iter()]).toEqual([]);
+    expect(Array.from(ok(42).iter())).toEqual([42]);
+
+    const values: number[] = [];
+    for (const value of ok(42).iter()) {
+      values.push(value);
+    }
+    expect(values).toEqual([42]);
+  });
+
+  test("iterating", () => {
+    expect([...ok(1)]).toEqual([1]);
+    expect([...err(1)]).toEqual([]);
+    expect(Array.from(ok("a"))).toEqual(["a"]);
+    expectTypeOf([...(ok(1) as Result<number, number>)]).toEqualTypeOf<
+      number[]
+    >();
+
+    const values: number[] = [];
+    for (const value of ok(1)) {
+      values.push(value);
+    }
+    for (const value of err(1) as Result<number, number>) {
+      values.push(value);
+    }
+    expect(values).toEqual([1]);
+  });
+
+  test("err", () => {
+    expectTypeOf(errVariant.err()).toEqualTypeOf<Option<string>>();
+    expect(errVariant.err().unwrap()).toBe("error");
+    expect(okVariant.err().isNone).toBe(true);
+  });
+
+  test("flatten", () => {
+    const nested = ok(err(1)) as Result<Result<string, number>, boolean>;
+    expectTypeOf(nested.flatten()).toEqualTypeOf<
+      Result<string, boolean | number>
+    >();
+    expect(nested.flatten().unwrapErr()).toBe(1);
+    expect(ok(ok(1)).flatten().unwrap()).toBe(1);
+    expect(err("outer").flatten().unwrapErr()).toBe("outer");
+    // @ts-expect-error flatten is only available on nested results
+    okVariant.flatten();
+  });
+
+  test("transpose", () => {
+    const found = ok(some(1)) as Result<Option<number>, string>;
+    expectTypeOf(found.transpose()).toEqualTypeOf<
+      Option<Result<number, string>>
+    >();
+    expect(found.transpose().unwrap().unwrap()).toBe(1);
+    expect(ok(none).transpose().isNone).toBe(true);
+    expect(err("error").transpose().unwrap().unwrapErr()).toBe("error");
+    // @ts-expect-error transpose is only available on results of options
+    () => okVariant.transpose();
+  });
+
+  test("okOr and okOrElse", () => {
+    const lookup = ok(none) as Result<Option<number>, Error>;
+    const user = lookup.okOr("not found" as const);
+    expectTypeOf(user).toEqualTypeOf<Result<number, Error | "not found">>();
+    expect(user.unwrapErr()).toBe("not found");
+    expect(ok(some(1)).okOr("not found").unwrap()).toBe(1);
+    expect(err("error").okOr("not found").unwrapErr()).toBe("error");
+
+    const f = vitest.fn(() => "not found");
+    expect(lookup.okOrElse(f).unwrapErr()).toBe("not found");
+    expect(ok(some(1)).okOrElse(f).unwrap()).toBe(1);
+    expect(f).toHaveBeenCalledTimes(1);
+  });
+
+  describe("tagged errors", () => {
+    class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+    class Timeout extends TaggedError("Timeout") {}
+
+    const find = (id: string): Result<number, NotFound | Timeout> =>
+      id === "1"
+        ? ok(1)
+        : id === "slow"
+        ? err(new Timeout())
+        : err(new NotFound({ id }));
+
+    test("catchTag", () => {
+      const handler = vitest.fn(
+        (error: NotFound) => ok(`guest ${error.id}`) as Result<string, never>
+      );
+      const res = find("2").catchTag("NotFound", handler);
+      expectTypeOf(res).toEqualTypeOf<Result<number | string, Timeout>>();
+      expect(res.unwrap()).toBe("guest 2");
+      expect(find("1").catchTag("NotFound", handler).unwrap()).toBe(1);
+      expect(
+        find("slow").catchTag("NotFound", handler).unwrapErr()
+      ).toBeInstanceOf(Timeout);
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      const retried = find("slow").catchTag("Timeout", () => find("2"));
+      expectTypeOf(retried).toEqualTypeOf<Result<number, NotFound | Timeout>>();
+      // @ts-expect-error the error type has no such tag
+      find("1").catchTag("Unknown", () => ok(1));
+    });
+
+    test("matchError", () => {
+      const describeError = (id: string) =>
+        find(id).matchError({
+          NotFound: (error) => `no user ${error.id}`,
+          Timeout: () => "try again later",
+        });
+      expectTypeOf(describeError).returns.toEqualTypeOf<number | string>();
+      expect(describeError("1")).toBe(1);
+      expect(describeError("2")).toBe("no user 2");
+      expect(describeError("slow")).toBe("try again later");
+
+      // @ts-expect-error every tag must be handled
+      () => find("2").matchError({ NotFound: () => 0 });
+      // @ts-expect-error only results with tagged errors can be matched
+      () => errVariant.matchError({});
+    });
+
+    test("variance", () => {
+      const fun = (): Result<number, NotFound | Timeout> =>
+        err(new NotFound({ id: "1" })) as Result<number, NotFound>;
+    });
+  });
+
+  test("context and withContext", () => {
+    const read = (path: string): Result<string, "ENOENT"> =>
+      path ? ok("{}") : err("ENOENT");
+
+    const res = read("").context("loading user config");
+    expectTypeOf(res).toEqualTypeOf<Result<string, ContextError<"ENOENT">>>();
+    const error = res.unwrapErr();
+    expect(error).toBeInstanceOf(ContextError);
+    expect(error.message).toBe("loading user config");
+    expect(error.cause).toBe("ENOENT");
+    expect(read("config.json").context("loading user config").unwrap()).toBe(
+      "{}"
+    );
+
+    const f = vitest.fn((error: "ENOENT") => `${error}: config.json`);
+    expect(read("config.json").withContext(f).isOk).toBe(true);
+    expect(f).not.toHaveBeenCalled();
+    const nested = read("")
+      .withContext(f)
+      .context("loading user config")
+      .unwrapErr();
+    expect(nested.chain().map((layer) => String(layer))).toEqual([
+      "ContextError: loading user config",
+      "ContextError: ENOENT: config.json",
+      "ENOENT",
+    ]);
+    expectTypeOf(nested.rootCause()).toEqualTypeOf<"ENOENT">();
+  });
+
+  test("toString", () => {
+    class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+
+    expect(String(ok(42))).toBe("Ok(42)");
+    expect(`${err(new NotFound({ id: "1" }))}`).toBe("Err(NotFound)");
+    expect(String(err(new Error("boom")))).toBe("Err(Error: boom)");
+    expect(String(ok(some(none)))).toBe("Ok(Some(None))");
+    expect(String(err({ code: 404 }))).toBe("Err({ code: 404 })");
+    expect(String(ok(new Map([["a", 1]])))).toBe('Ok(Map { "a" => 1 })');
+    expect(Object.prototype.toString.call(ok(1))).toBe("[object Ok]");
+    expect(Object.prototype.toString.call(err(1))).toBe("[object Err]");
+
+    const cyclic: { self?: unknown } = {};
+    cyclic.self = cyclic;
+    expect(String(ok(cyclic))).toBe("Ok({ self: [Circular] })");
+  });
+
+  test("util.inspect", () => {
+    expect(inspect(ok(42))).toBe("Ok(42)");
+    expect(inspect(err("error"))).toBe("Err('error')");
+    expect(inspect([ok(some(1)), err(none)])).toBe(
+      "[ Ok(Some(1)), Err(None) ]"
+    );
+  });
+
+  test("unwrap errors describe the value", () => {
+    expect(() => err({ code: 404 }).unwrap()).toThrow(
+      "called `Result.unwrap()` on an `Err` value: { code: 404 }"
+    );
+    expect(() => ok([1, 2]).unwrapErr()).toThrow(
+      "called `Result.unwrapErr()` on an `Ok` value: [1, 2]"
+    );
+  });
+
   test("variance", () => {
     type A = { variant: "a"; value: number } | { variant: "b"; val: string };
 
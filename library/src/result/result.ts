@@ -1,4 +1,21 @@
-import { Option, none, some } from "../option";
+import { Option, none, some } from "../option/option";
+import {
+  Inspect,
+  InspectOptions,
+  display,
+  inspectCustom,
+  inspectVariant,
+} from "../format";
+import { ShortCircuit } from "../shortCircuit";
+import { hasBrand, resultBrand } from "../brand";
+import { ContextError } from "./contextError";
+import {
+  ErrorHandlers,
+  ErrorWithTag,
+  TagOf,
+  Tagged,
+  hasTag,
+} from "./taggedError";
 
 export type OkVariant<T, E> = {
   readonly variant: "ok";
@@ -16,6 +33,49 @@ export type ErrVariant<T, E> = {
 
 export type Result<T, E> = OkVariant<T, E> | ErrVariant<T, E>;
 
+/**
+ * Extracts the Ok type of a Result type.
+ *
+ * @example
+ * ```ts
+ * type A = InferOk<Result<number, string>>; // number
+ * ```
+ */
+export type InferOk<R> = R extends { unwrap: () => infer T } ? T : never;
+
+/**
+ * Extracts the Err type of a Result type.
+ *
+ * @example
+ * ```ts
+ * type A = InferErr<Result<number, string>>; // string
+ * ```
+ */
+export type InferErr<R> = R extends { unwrapErr: () => infer E } ? E : never;
+
+/**
+ * The JSON representation of a result, returned by `toJSON`.
+ * Errors that are `Error` instances, also when nested in arrays and plain
+ * objects of the error, are written as plain objects with their `name`,
+ * `message`, `cause` and own fields, and are read back as such.
+ *
+ * @example
+ * ```ts
+ * JSON.stringify(ok(42)); // {"$type":"Result","variant":"ok","value":42}
+ * JSON.stringify(err("oops")); // {"$type":"Result","variant":"err","error":"oops"}
+ * ```
+ */
+export type ResultJSON<T = unknown, E = unknown> =
+  | { readonly $type: "Result"; readonly variant: "ok"; readonly value: T }
+  | { readonly $type: "Result"; readonly variant: "err"; readonly error: E };
+
+/**
+ * What the `bind` of a `gen` block yields for a result.
+ */
+export type ResultYield<T, E> =
+  | { readonly variant: "ok"; readonly value: T }
+  | { readonly variant: "err"; readonly error: E };
+
 export type ResultProperties<T, E> = {
   /**
    * Property that is `true` if the result is Ok.
@@ -73,28 +133,28 @@ export type ResultProperties<T, E> = {
   ok: () => Option<T>;
 
   /**
-   * Converts from Result<T, E> to Option<E> discarding the error, if any.
+   * Converts from Result<T, E> to Option<E> discarding the value, if any.
    *
    * @example
    * ```ts
-   * expect(ok(42).ok()).toEqual(some(42))
-   * expect(err("error").ok()).toEqual(none)
+   * expect(ok(42).err()).toEqual(none)
+   * expect(err("error").err()).toEqual(some("error"))
    * ```
    */
-  err: () => Option<T>;
+  err: () => Option<E>;
 
   /**
    *  Returns the inner value. Useful for situations where if the
    *  result is a `Err` then there is no use to continue running the program.
    *  The message can be used for debugging purposes.
    *
-   * @param message the message to throw it the option is a `Err` variant.
-   * @throws throws the given message if the option is a `Err` variant.
+   * @param message the message to throw it the result is a `Err` variant.
+   * @throws throws an Error with the given message and the error as its `cause` if the result is a `Err` variant.
    *
    * @example
    * ```ts
    *  expect(ok(42).expect("should be a number")).toBe(42)
-   *  expect(err("error").expect("this will throw")).toThrow()
+   *  expect(() => err("error").expect("this will throw")).toThrow("this will throw")
    * ```
    */
   expect: (message: string) => T;
@@ -209,181 +269,672 @@ export type ResultProperties<T, E> = {
    */
   mapErr: <U>(f: (value: E) => U) => Result<T, U>;
 
+  /**
+   * Wraps the error in a `ContextError` with the message, keeping the
+   * original error as its `cause`. Ok results are returned as they are.
+   *
+   * @example
+   * ```ts
+   * const config = readFile(path) // Result<string, FsError>
+   *   .andThen(parseConfig) // Result<Config, FsError | ParseError>
+   *   .context("loading user config"); // Result<Config, ContextError<FsError | ParseError>>
+   * ```
+   */
+  context: (message: string) => Result<T, ContextError<E>>;
+
+  /**
+   * Like `context`, but the message is only computed if the result is an Err.
+   *
+   * @example
+   * ```ts
+   * const user = findUser(id).withContext(() => `loading user ${id}`);
+   * ```
+   */
+  withContext: (f: (error: E) => string) => Result<T, ContextError<E>>;
+
   /**
    * Returns res if the result is Ok, otherwise returns the Err value of self.
+   * The error type is the union of both error types.
    */
-  and: <U, E1 extends E>(b: Result<U, E1>) => Result<U, E>;
+  and: <U, E1>(b: Result<U, E1>) => Result<U, E | E1>;
 
   /**
    *  Returns res if the result is Err, otherwise returns the Ok value of self.
+   *  The Ok type is the union of both Ok types.
    */
-  or: <F, T1 extends T>(b: Result<T1, F>) => Result<T, F>;
+  or: <U, F>(b: Result<U, F>) => Result<T | U, F>;
 
   /**
-   * Returns the option if it contains a value,
-   *  otherwise calls f and returns the result.
+   * Returns the result if it is Ok,
+   *  otherwise calls f and returns its result.
+   *  The Ok type is the union of both Ok types.
+   */
+  orElse: <U, F>(f: () => Result<U, F>) => Result<T | U, F>;
+
+  /**
+   *  Returns the Err if the result is Err, otherwise calls `f` with the
+   *  wrapped value and returns its result. The error type is the union
+   *  of the errors of both steps, so steps with different errors can be chained.
+   *
+   * @alias flatMap
+   *
+   * @example
+   * ```ts
+   *  const saved = parse(text).andThen(save);
+   *  // Result<Id, ParseError | DbError>
+   * ```
    */
-  orElse: <F, T1 extends T>(f: () => Result<T1, F>) => Result<T, F>;
+  andThen: <U, E1>(f: (value: T) => Result<U, E1>) => Result<U, E | E1>;
 
-  andThen: <U, E1 extends E>(f: (value: T) => Result<U, E1>) => Result<U, E>;
-  flatMap: <U, E1 extends E>(f: (value: T) => Result<U, E1>) => Result<U, E>;
+  /**
+   * @alias andThen
+   */
+  flatMap: <U, E1>(f: (value: T) => Result<U, E1>) => Result<U, E | E1>;
+
+  /**
+   * Removes one level of nesting from a result of a result.
+   * The error type becomes the union of both error types.
+   *
+   * @example
+   * ```ts
+   * expect(ok(ok(1)).flatten().unwrap()).toBe(1)
+   * expect(ok(err("inner")).flatten().unwrapErr()).toBe("inner")
+   * expect(err("outer").flatten().unwrapErr()).toBe("outer")
+   * ```
+   */
+  flatten: <U, E1>(this: Result<Result<U, E1>, unknown>) => Result<U, E | E1>;
+
+  /**
+   * Transposes a result of an option into an option of a result.
+   * `Ok(None)` becomes `None`, `Ok(Some(x))` becomes `Some(Ok(x))`
+   * and `Err(e)` becomes `Some(Err(e))`.
+   *
+   * @example
+   * ```ts
+   * expect(ok(some(1)).transpose().unwrap().unwrap()).toBe(1)
+   * expect(ok(none).transpose().isNone).toBe(true)
+   * expect(err("error").transpose().unwrap().unwrapErr()).toBe("error")
+   * ```
+   */
+  transpose: <U>(this: Result<Option<U>, unknown>) => Option<Result<U, E>>;
+
+  /**
+   * Converts a result of an option into a result of the value,
+   * mapping `Ok(None)` to `Err(error)`. Errors are kept as they are.
+   *
+   * @example
+   * ```ts
+   * const user = findUser(id).okOr("not found" as const);
+   * // Result<User, DbError | "not found">
+   * expect(ok(none).okOr("not found").unwrapErr()).toBe("not found")
+   * ```
+   */
+  okOr: <U, E1>(
+    this: Result<Option<U>, unknown>,
+    error: E1
+  ) => Result<U, E | E1>;
+
+  /**
+   * Like `okOr`, but the error for `Ok(None)` is computed lazily.
+   *
+   * @example
+   * ```ts
+   * const user = findUser(id).okOrElse(() => new NotFoundError(id));
+   * ```
+   */
+  okOrElse: <U, E1>(
+    this: Result<Option<U>, unknown>,
+    f: () => E1
+  ) => Result<U, E | E1>;
 
   tap: <F extends void | Promise<void>>(f: (value: T) => F) => F;
   bind: () => T;
   b: () => T;
 
   match: <U>(pattern: { ok: (value: T) => U; err: (value: E) => U }) => U;
-};
 
-const okHandler: ProxyHandler<Result<any, any>> = {
-  get: (target, prop) => {
-    const { value } = target as OkVariant<any, any>;
-    const unwrap = (): any => value;
-    const flatMap = (f: (value: any) => Result<any, any>) => f(value);
-
-    switch (prop) {
-      case "variant":
-        return "ok";
-      case "value":
-        return value;
-      case "isOk":
-        return true;
-      case "isOkAnd":
-        return (f: any) => f(value);
-      case "isErr":
-        return false;
-      case "isErrAnd":
-        return () => false;
-      case "ok":
-        return () => some(value);
-      case "err":
-        return () => none;
-      case "expect":
-        return unwrap;
-      case "unwrap":
-        return unwrap;
-      case "expectErr":
-        return (message: any) => {
-          throw new Error(message);
-        };
-      case "unwrapErr":
-        return () => {
-          throw new Error("called `Result.unwrapErr()` on an `Ok` value");
-        };
-      case "unwrapOr":
-        return unwrap;
-      case "unwrapOrElse":
-        return unwrap;
-      case "map":
-        return (f: any) => ok(f(value));
-      case "mapOr":
-        return (_: any, f: any) => f(value);
-      case "mapOrElse":
-        return (_: any, f: any) => f(value);
-      case "mapErr":
-        return (_: any) => ok(value);
-      case "and":
-        return (b: any) => b;
-      case "or":
-        return () => ok(value);
-      case "orElse":
-        return () => ok(value);
-      case "andThen":
-        return flatMap;
-      case "flatMap":
-        return flatMap;
-      case "bind":
-        return () => value;
-      case "b":
-        return () => value;
-      case "match":
-        return (pattern: any) => pattern.ok(value);
-      case "tap":
-        return (f: any) => f(value);
-    }
-  },
+  /**
+   * Handles the errors with the given tag. Their tag is removed from the
+   * error type and the result of the handler is returned instead.
+   * Results with other errors and Ok results are returned as they are.
+   *
+   * @example
+   * ```ts
+   * const user = findUser(id) // Result<User, NotFound | Timeout>
+   *   .catchTag("NotFound", () => ok(guest)); // Result<User, Timeout>
+   * ```
+   */
+  catchTag: <K extends TagOf<E>, U, F>(
+    tag: K,
+    handler: (error: ErrorWithTag<E, K>) => Result<U, F>
+  ) => Result<T | U, Exclude<E, Tagged<K>> | F>;
+
+  /**
+   * Returns the Ok value or the result of the handler for the tag of the error.
+   * There must be a handler for every tag of the error type, and it's only
+   * available on results whose errors are all tagged.
+   *
+   * @example
+   * ```ts
+   * const message = findUser(id).map((user) => user.name).matchError({
+   *   NotFound: (error) => `no user ${error.id}`,
+   *   Timeout: () => "try again later",
+   * });
+   * ```
+   */
+  matchError: <U>(
+    this: Result<unknown, Tagged>,
+    handlers: ErrorHandlers<E, U>
+  ) => T | U;
+
+  /**
+   * Makes the result iterable over its Ok value: it iterates once
+   * with the value for ok and never for err.
+   *
+   * @example
+   * ```ts
+   * expect([...ok(1)]).toEqual([1]);
+   * expect([...err("error")]).toEqual([]);
+   * ```
+   */
+  [Symbol.iterator]: () => IterableIterator<T>;
+
+  /**
+   * Returns an iterator over the Ok value, it yields once for ok
+   * and never for err, like iterating over the result itself.
+   *
+   * @example
+   * ```ts
+   * expect([...ok(1).iter()]).toEqual([1]);
+   * expect([...err("error").iter()]).toEqual([]);
+   * ```
+   */
+  iter: () => IterableIterator<T>;
+
+  /**
+   * Returns the JSON representation of the result, it's called by `JSON.stringify`.
+   * Use `reviver` or `fromJSON` to turn it back into a result.
+   *
+   * @example
+   * ```ts
+   * expect(JSON.stringify(ok(42))).toBe('{"$type":"Result","variant":"ok","value":42}')
+   * ```
+   */
+  toJSON: () => ResultJSON<T, E>;
+
+  /**
+   * Returns a readable representation of the result, e.g. `Ok(42)` or
+   * `Err(NotFound)`. Node's `util.inspect` and `console.log` render
+   * results the same way.
+   *
+   * @example
+   * ```ts
+   * expect(String(ok(some(42)))).toBe("Ok(Some(42))")
+   * expect(`${err(new Error("boom"))}`).toBe("Err(Error: boom)")
+   * ```
+   */
+  toString: () => string;
 };
 
-export const ok = <T>(value: T): Result<T, any> =>
-  new Proxy(
-    {
-      variant: "ok",
-      value,
-    } as Result<T, any>,
-    okHandler
-  );
-
-const errHandler: ProxyHandler<Result<any, any>> = {
-  get: (target, prop) => {
-    const { error } = target as ErrVariant<any, any>;
-    const unwrap = () => {
-      throw new Error("called `Result.unwrap()` on an `Err` value: " + error);
-    };
+/**
+ * The `Ok` variant of a result, created with `ok`.
+ */
+export class Ok<T, E = any> implements OkVariant<T, E> {
+  readonly variant = "ok";
 
-    const bind = () => {
-      throw error;
-    };
+  constructor(readonly value: T) {}
 
-    switch (prop) {
-      case "variant":
-        return "err";
-      case "error":
-        return error;
-      case "isOk":
-        return false;
-      case "isOkAnd":
-        return () => false;
-      case "isErr":
-        return true;
-      case "isErrAnd":
-        return (p: any) => p(error);
-      case "ok":
-        return () => none;
-      case "err":
-        return () => some(error);
-      case "expect":
-        return unwrap;
-      case "unwrap":
-        return unwrap;
-      case "expectErr":
-        return () => error;
-      case "unwrapErr":
-        return () => error;
-      case "unwrapOr":
-        return (defaultValue: any) => defaultValue;
-      case "unwrapOrElse":
-        return (defaultValueFun: any) => defaultValueFun();
-      case "map":
-        return () => err(error);
-      case "mapOr":
-        return (defaultValue: any, _: any) => defaultValue;
-      case "mapOrElse":
-        return (defaultValueFn: any, f: any) => defaultValueFn();
-      case "mapErr":
-        return (f: any) => err(f(error));
-      case "and":
-        return () => err(error);
-      case "or":
-        return (res: any) => res;
-      case "orElse":
-        return (f: any) => f();
-      case "andThen":
-        return () => err(error);
-      case "flatMap":
-        return () => err(error);
-      case "bind":
-        return bind;
-      case "b":
-        return bind;
-      case "match":
-        return (pattern: any) => pattern.err(error);
-      case "tap":
-        return <F extends void | Promise<void>>(f: (_: any) => F): F => {
-          return undefined as any;
-        };
+  get isOk(): true {
+    return true;
+  }
+
+  get isErr(): false {
+    return false;
+  }
+
+  isOkAnd(predicate: (value: T) => boolean): boolean {
+    return predicate(this.value);
+  }
+
+  isErrAnd(): boolean {
+    return false;
+  }
+
+  ok(): Option<T> {
+    return some(this.value);
+  }
+
+  err(): Option<E> {
+    return none;
+  }
+
+  expect(): T {
+    return this.value;
+  }
+
+  unwrap(): T {
+    return this.value;
+  }
+
+  expectErr(message: string): T {
+    throw new Error(message);
+  }
+
+  unwrapErr(): E {
+    throw new Error(
+      `called \`Result.unwrapErr()\` on an \`Ok\` value: ${display(this.value)}`
+    );
+  }
+
+  unwrapOr(): T {
+    return this.value;
+  }
+
+  unwrapOrElse(): T {
+    return this.value;
+  }
+
+  map<U>(f: (value: T) => U): Result<U, E> {
+    return ok(f(this.value));
+  }
+
+  mapOr<U>(_: U, f: (value: T) => U): U {
+    return f(this.value);
+  }
+
+  mapOrElse<U>(_: () => U, f: (arg: T) => U): U {
+    return f(this.value);
+  }
+
+  mapErr<U>(): Result<T, U> {
+    return ok(this.value);
+  }
+
+  context(): Result<T, ContextError<E>> {
+    return ok(this.value);
+  }
+
+  withContext(): Result<T, ContextError<E>> {
+    return ok(this.value);
+  }
+
+  and<U, E1>(b: Result<U, E1>): Result<U, E | E1> {
+    return b;
+  }
+
+  or<U, F>(): Result<T | U, F> {
+    return ok(this.value);
+  }
+
+  orElse<U, F>(): Result<T | U, F> {
+    return ok(this.value);
+  }
+
+  andThen<U, E1>(f: (value: T) => Result<U, E1>): Result<U, E | E1> {
+    return f(this.value);
+  }
+
+  flatMap<U, E1>(f: (value: T) => Result<U, E1>): Result<U, E | E1> {
+    return f(this.value);
+  }
+
+  flatten<U, E1>(this: Result<Result<U, E1>, unknown>): Result<U, E | E1> {
+    return this.unwrap();
+  }
+
+  transpose<U>(this: Result<Option<U>, unknown>): Option<Result<U, E>> {
+    return this.unwrap().map(ok);
+  }
+
+  okOr<U, E1>(this: Result<Option<U>, unknown>, error: E1): Result<U, E | E1> {
+    return this.unwrap().okOr(error);
+  }
+
+  okOrElse<U, E1>(
+    this: Result<Option<U>, unknown>,
+    f: () => E1
+  ): Result<U, E | E1> {
+    return this.unwrap().okOrElse(f);
+  }
+
+  tap<F extends void | Promise<void>>(f: (value: T) => F): F {
+    return f(this.value);
+  }
+
+  bind(): T {
+    return this.value;
+  }
+
+  b(): T {
+    return this.value;
+  }
+
+  match<U>(pattern: { ok: (value: T) => U; err: (value: E) => U }): U {
+    return pattern.ok(this.value);
+  }
+
+  catchTag<K extends TagOf<E>, U, F>(): Result<
+    T | U,
+    Exclude<E, Tagged<K>> | F
+  > {
+    return ok(this.value);
+  }
+
+  matchError<U>(): T | U {
+    return this.value;
+  }
+
+  [Symbol.iterator](): IterableIterator<T> {
+    return this.iter();
+  }
+
+  *iter(): IterableIterator<T> {
+    yield this.value;
+  }
+
+  toJSON(): ResultJSON<T, E> {
+    return { $type: "Result", variant: "ok", value: this.value };
+  }
+
+  toString(): string {
+    return `Ok(${display(this.value)})`;
+  }
+
+  get [Symbol.toStringTag](): string {
+    return "Ok";
+  }
+
+  get [resultBrand](): true {
+    return true;
+  }
+
+  [inspectCustom](
+    depth: number,
+    options: InspectOptions,
+    inspect?: Inspect
+  ): string {
+    return inspectVariant(this, "Ok", this.value, depth, options, inspect);
+  }
+}
+
+// The name and message of errors aren't enumerable, so `JSON.stringify`
+// would write `{}`. They are written next to the own fields, e.g. `_tag`, for
+// the error and for the errors nested in its arrays, plain objects and causes.
+// A cycle, like an error being its own cause, is written as "[Circular]".
+const errorToJSON = (
+  value: unknown,
+  seen: Set<object> = new Set()
+): unknown => {
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  const isPlain = prototype === Object.prototype || prototype === null;
+  if (!(value instanceof Error) && !Array.isArray(value) && !isPlain) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return "[Circular]";
+  }
+  seen.add(value);
+  try {
+    if (Array.isArray(value)) {
+      return value.map((item) => errorToJSON(item, seen));
+    }
+    const json: Record<string, unknown> = {};
+    const write = (key: string, item: unknown) =>
+      Object.defineProperty(json, key, {
+        value: errorToJSON(item, seen),
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+    for (const [key, item] of Object.entries(value)) {
+      write(key, item);
+    }
+    if (value instanceof Error) {
+      const { cause } = value as { cause?: unknown };
+      write("name", value.name);
+      write("message", value.message);
+      if (cause !== undefined) {
+        write("cause", cause);
+      }
     }
-  },
+    return json;
+  } finally {
+    seen.delete(value);
+  }
 };
 
-export const err = <E>(error: E): Result<any, E> =>
-  new Proxy({ variant: "err", error } as Result<any, E>, errHandler);
+/**
+ * The `Err` variant of a result, created with `err`.
+ */
+export class Err<T, E> implements ErrVariant<T, E> {
+  readonly variant = "err";
+
+  constructor(readonly error: E) {}
+
+  get isOk(): false {
+    return false;
+  }
+
+  get isErr(): true {
+    return true;
+  }
+
+  isOkAnd(): boolean {
+    return false;
+  }
+
+  isErrAnd<E1 extends E>(predicate: (value: E1) => boolean): boolean {
+    return predicate(this.error as E1);
+  }
+
+  ok(): Option<T> {
+    return none;
+  }
+
+  err(): Option<E> {
+    return some(this.error);
+  }
+
+  expect(message: string): T {
+    throw Object.assign(new Error(message), { cause: this.error });
+  }
+
+  unwrap(): T {
+    throw new Error(
+      `called \`Result.unwrap()\` on an \`Err\` value: ${display(this.error)}`
+    );
+  }
+
+  expectErr(): T {
+    return this.error as any;
+  }
+
+  unwrapErr(): E {
+    return this.error;
+  }
+
+  unwrapOr<T1 extends T>(defaultValue: T1): T {
+    return defaultValue;
+  }
+
+  unwrapOrElse<T1 extends T>(defaultValueFun: () => T1): T {
+    return defaultValueFun();
+  }
+
+  map<U>(): Result<U, E> {
+    return err(this.error);
+  }
+
+  mapOr<U>(defaultValue: U): U {
+    return defaultValue;
+  }
+
+  mapOrElse<U>(defaultValueFun: () => U): U {
+    return defaultValueFun();
+  }
+
+  mapErr<U>(f: (value: E) => U): Result<T, U> {
+    return err(f(this.error));
+  }
+
+  context(message: string): Result<T, ContextError<E>> {
+    return this.mapErr((error) => new ContextError(message, error));
+  }
+
+  withContext(f: (error: E) => string): Result<T, ContextError<E>> {
+    return this.mapErr((error) => new ContextError(f(error), error));
+  }
+
+  and<U, E1>(): Result<U, E | E1> {
+    return err(this.error);
+  }
+
+  or<U, F>(b: Result<U, F>): Result<T | U, F> {
+    return b;
+  }
+
+  orElse<U, F>(f: () => Result<U, F>): Result<T | U, F> {
+    return f();
+  }
+
+  andThen<U, E1>(): Result<U, E | E1> {
+    return err(this.error);
+  }
+
+  flatMap<U, E1>(): Result<U, E | E1> {
+    return err(this.error);
+  }
+
+  flatten<U, E1>(): Result<U, E | E1> {
+    return err(this.error);
+  }
+
+  transpose<U>(): Option<Result<U, E>> {
+    return some(err(this.error));
+  }
+
+  okOr<U, E1>(): Result<U, E | E1> {
+    return err(this.error);
+  }
+
+  okOrElse<U, E1>(): Result<U, E | E1> {
+    return err(this.error);
+  }
+
+  tap<F extends void | Promise<void>>(): F {
+    return undefined as F;
+  }
+
+  bind(): T {
+    throw new ShortCircuit("err", this.error);
+  }
+
+  b(): T {
+    throw new ShortCircuit("err", this.error);
+  }
+
+  match<U>(pattern: { ok: (value: T) => U; err: (value: E) => U }): U {
+    return pattern.err(this.error);
+  }
+
+  catchTag<K extends TagOf<E>, U, F>(
+    tag: K,
+    handler: (error: ErrorWithTag<E, K>) => Result<U, F>
+  ): Result<T | U, Exclude<E, Tagged<K>> | F> {
+    return hasTag(this.error, tag)
+      ? handler(this.error as ErrorWithTag<E, K>)
+      : err(this.error as Exclude<E, Tagged<K>>);
+  }
+
+  matchError<U>(
+    this: Result<unknown, Tagged>,
+    handlers: ErrorHandlers<E, U>
+  ): T | U {
+    const error = this.unwrapErr();
+    const handler: (error: Tagged) => U = (handlers as any)[error._tag];
+    return handler(error);
+  }
+
+  [Symbol.iterator](): IterableIterator<T> {
+    return this.iter();
+  }
+
+  *iter(): IterableIterator<T> {}
+
+  toJSON(): ResultJSON<T, E> {
+    return {
+      $type: "Result",
+      variant: "err",
+      error: errorToJSON(this.error) as E,
+    };
+  }
+
+  toString(): string {
+    return `Err(${display(this.error)})`;
+  }
+
+  get [Symbol.toStringTag](): string {
+    return "Err";
+  }
+
+  get [resultBrand](): true {
+    return true;
+  }
+
+  [inspectCustom](
+    depth: number,
+    options: InspectOptions,
+    inspect?: Inspect
+  ): string {
+    return inspectVariant(this, "Err", this.error, depth, options, inspect);
+  }
+}
+
+export const ok = <T>(value: T): Result<T, any> => new Ok(value);
+
+export const err = <E>(error: E): Result<any, E> => new Err(error);
+
+/**
+ * Returns `true` if the value is a result.
+ *
+ * @example
+ * ```ts
+ * expect(isResult(ok(42))).toBe(true)
+ * expect(isResult({ variant: "ok", value: 42 })).toBe(false)
+ * ```
+ */
+export const isResult = (value: unknown): value is Result<unknown, unknown> =>
+  hasBrand(value, resultBrand);
+
+/**
+ * Returns `true` if the value is a result of the `Ok` variant.
+ *
+ * @example
+ * ```ts
+ * expect(isOk(ok(42))).toBe(true)
+ * expect(isOk(err("error"))).toBe(false)
+ * ```
+ */
+export function isOk<T, E>(value: Result<T, E>): value is OkVariant<T, E>;
+export function isOk(value: unknown): value is OkVariant<unknown, unknown>;
+export function isOk(value: unknown): boolean {
+  return isResult(value) && value.variant === "ok";
+}
+
+/**
+ * Returns `true` if the value is a result of the `Err` variant.
+ *
+ * @example
+ * ```ts
+ * expect(isErr(err("error"))).toBe(true)
+ * expect(isErr(new Error("error"))).toBe(false)
+ * ```
+ */
+export function isErr<T, E>(value: Result<T, E>): value is ErrVariant<T, E>;
+export function isErr(value: unknown): value is ErrVariant<unknown, unknown>;
+export function isErr(value: unknown): boolean {
+  return isResult(value) && value.variant === "err";
+}
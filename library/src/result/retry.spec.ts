@@ -0,0 +1,172 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  expectTypeOf,
+  test,
+  vitest,
+} from "vitest";
+import { Result, err, ok } from "./result";
+import { TimeoutError, retry, withTimeout } from "./retry";
+
+describe("retry", () => {
+  beforeEach(() => {
+    vitest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vitest.useRealTimers();
+  });
+
+  // fails with the attempt number until the given attempt
+  const failUntil =
+    (success: number) =>
+    (attempt: number): Result<string, number> =>
+      attempt < success ? err(attempt) : ok("done");
+
+  test("resolves to the first ok", async () => {
+    const fn = vitest.fn(failUntil(3));
+    const res = retry(fn, { attempts: 5, backoff: "fixed" });
+
+    await vitest.advanceTimersByTimeAsync(200);
+    expect(await res).toEqual(ok("done"));
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  test("resolves to the last error when the attempts run out", async () => {
+    const onError = vitest.fn();
+    const res = retry(failUntil(10), { attempts: 3, onError });
+
+    await vitest.advanceTimersByTimeAsync(300);
+    expectTypeOf(await res).toEqualTypeOf<Result<string, number>>();
+    expect(await res).toEqual(err(3));
+    expect(onError.mock.calls).toEqual([
+      [1, 1],
+      [2, 2],
+      [3, 3],
+    ]);
+  });
+
+  test("stops when retryIf returns false", async () => {
+    const fn = vitest.fn(failUntil(10));
+    const res = retry(fn, { attempts: 5, retryIf: (error) => error < 2 });
+
+    await vitest.advanceTimersByTimeAsync(1000);
+    expect(await res).toEqual(err(2));
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test("backoff", async () => {
+    // when every attempt was made, in milliseconds since the first one
+    const waits = async (options: Parameters<typeof retry>[1]) => {
+      const start = Date.now();
+      const calls: number[] = [];
+      const res = retry(
+        (attempt) => {
+          calls.push(Date.now() - start);
+          return failUntil(10)(attempt);
+        },
+        { attempts: 4, ...options }
+      );
+      await vitest.runAllTimersAsync();
+      await res;
+      return calls;
+    };
+
+    expect(await waits({ backoff: "fixed", delay: 10 })).toEqual([
+      0, 10, 20, 30,
+    ]);
+    expect(await waits({ backoff: "exponential", delay: 10 })).toEqual([
+      0, 10, 30, 70,
+    ]);
+    expect(
+      await waits({ backoff: "exponential", delay: 10, maxDelay: 15 })
+    ).toEqual([0, 10, 25, 40]);
+    expect(await waits({ backoff: (attempt) => attempt * 5 })).toEqual([
+      0, 5, 15, 30,
+    ]);
+
+    vitest.spyOn(Math, "random").mockReturnValue(0.5);
+    expect(await waits({ backoff: "jitter", delay: 10 })).toEqual([
+      0, 5, 15, 35,
+    ]);
+    vitest.mocked(Math.random).mockRestore();
+  });
+
+  test("timeout", async () => {
+    const fn = vitest.fn((attempt: number) =>
+      attempt === 1
+        ? new Promise<Result<string, number>>(() => {})
+        : (ok("done") as Result<string, number>)
+    );
+    const onError = vitest.fn();
+    const res = retry(fn, { timeout: 1000, delay: 10, onError });
+
+    expectTypeOf(res).resolves.toEqualTypeOf<
+      Result<string, number | TimeoutError>
+    >();
+    await vitest.advanceTimersByTimeAsync(1010);
+    expect((await res).unwrap()).toBe("done");
+    expect(onError.mock.calls[0]).toEqual([new TimeoutError(1000), 1]);
+  });
+});
+
+describe("withTimeout", () => {
+  beforeEach(() => {
+    vitest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vitest.useRealTimers();
+  });
+
+  const after = <T>(ms: number, value: T) =>
+    new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
+
+  test("resolves to the result if it is on time", async () => {
+    const res = withTimeout(
+      () => after(100, ok(1) as Result<number, string>),
+      200
+    );
+
+    await vitest.advanceTimersByTimeAsync(100);
+    expectTypeOf(res).resolves.toEqualTypeOf<
+      Result<number, string | TimeoutError>
+    >();
+    expect(await res).toEqual(ok(1));
+    expect(vitest.getTimerCount()).toBe(0);
+  });
+
+  test("resolves to a TimeoutError if it is late", async () => {
+    const res = withTimeout(() => after(300, ok(1)), 200);
+
+    await vitest.advanceTimersByTimeAsync(200);
+    const error = await res.unwrapErr();
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toMatchObject({ _tag: "TimeoutError", ms: 200 });
+    expect(error.message).toBe("Timed out after 200ms");
+  });
+
+  test("aborts the signal passed to the function on timeout", async () => {
+    let signal = new AbortController().signal;
+    const res = withTimeout((s) => {
+      signal = s;
+      return after(300, ok(1));
+    }, 200);
+
+    expect(signal.aborted).toBe(false);
+    await vitest.advanceTimersByTimeAsync(200);
+    await res;
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBeInstanceOf(TimeoutError);
+  });
+
+  test("rejects if the function throws", async () => {
+    const res = withTimeout(() => {
+      throw new Error("boom");
+    }, 200);
+
+    await expect(res).rejects.toThrow("boom");
+  });
+});
@@ -0,0 +1,184 @@
+import { neverAborted } from "../abort";
+import { AsyncResult, Awaitable, asyncResult } from "./async";
+import { Result, err } from "./result";
+
+/*
+ * Retry and timeout policies for functions returning a (possibly async) result.
+ * Waiting is done with `setTimeout`, so both can be tested with fake timers.
+ */
+
+/**
+ * An attempt took longer than the time limit of `withTimeout` or `retry`.
+ */
+export class TimeoutError extends Error {
+  readonly name = "TimeoutError";
+  readonly _tag = "TimeoutError";
+
+  constructor(readonly ms: number) {
+    super(`Timed out after ${ms}ms`);
+  }
+}
+
+/**
+ * How long `retry` waits before the next attempt:
+ * - `"fixed"`: always `delay`
+ * - `"exponential"`: `delay` doubled after every failed attempt
+ * - `"jitter"`: a random time between 0 and the exponential delay
+ * - a function of the number of failed attempts so far, returning milliseconds
+ */
+export type Backoff =
+  | "fixed"
+  | "exponential"
+  | "jitter"
+  | ((attempt: number) => number);
+
+export interface RetryOptions<E> {
+  /**
+   * The maximum number of attempts, including the first one. Defaults to 3.
+   */
+  attempts?: number;
+
+  /**
+   * Defaults to `"exponential"`.
+   */
+  backoff?: Backoff;
+
+  /**
+   * The base delay in milliseconds. Defaults to 100.
+   */
+  delay?: number;
+
+  /**
+   * The upper bound of the delay in milliseconds. Defaults to no bound.
+   */
+  maxDelay?: number;
+
+  /**
+   * The time limit of every attempt in milliseconds. An attempt that
+   * exceeds it fails with a `TimeoutError`.
+   */
+  timeout?: number;
+
+  /**
+   * Decides whether an error is worth another attempt. Defaults to retrying every error.
+   */
+  retryIf?: (error: E) => boolean;
+
+  /**
+   * Called with the error of every failed attempt, including the last one.
+   */
+  onError?: (error: E, attempt: number) => void;
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const delayFor = (backoff: Backoff, delay: number, attempt: number) => {
+  switch (backoff) {
+    case "fixed":
+      return delay;
+    case "exponential":
+      return delay * 2 ** (attempt - 1);
+    case "jitter":
+      return Math.random() * delay * 2 ** (attempt - 1);
+    default:
+      return backoff(attempt);
+  }
+};
+
+/**
+ * Calls `fn` and resolves to its result, or to `Err(TimeoutError)` if it
+ * doesn't resolve within `ms` milliseconds. The late result is ignored and
+ * the signal passed to `fn` is aborted, so that it can stop its work.
+ *
+ * @example
+ * ```ts
+ * const user = await withTimeout((signal) => fetchUser(id, { signal }), 5000);
+ * // user: Result<User, FetchError | TimeoutError>
+ * ```
+ */
+export const withTimeout = <T, E>(
+  fn: (signal: AbortSignal) => Awaitable<Result<T, E>>,
+  ms: number
+): AsyncResult<T, E | TimeoutError> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<Result<T, TimeoutError>>((resolve) => {
+    timer = setTimeout(() => {
+      const error = new TimeoutError(ms);
+      controller.abort(error);
+      resolve(err(error));
+    }, ms);
+  });
+  const result = new Promise<Result<T, E>>((resolve) =>
+    resolve(fn(controller.signal))
+  );
+
+  return asyncResult<T, E | TimeoutError>(
+    Promise.race([result, timeout]).finally(() => clearTimeout(timer))
+  );
+};
+
+/**
+ * Calls `fn` until it returns an `Ok`, up to `attempts` times, waiting
+ * between attempts as defined by `backoff`. Resolves to the first `Ok`, or
+ * to the last `Err` once the attempts run out or `retryIf` returns `false`.
+ * `fn` is called with the number of the attempt, starting from 1, and
+ * a signal that is aborted when the attempt times out.
+ *
+ * @example
+ * ```ts
+ * const user = await retry((_, signal) => fetchUser(id, { signal }), {
+ *   attempts: 5,
+ *   backoff: "jitter",
+ *   timeout: 5000,
+ *   retryIf: (error) => error.retryable,
+ *   onError: (error, attempt) => log.warn(`attempt ${attempt} failed`, error),
+ * });
+ * // user: Result<User, FetchError | TimeoutError>
+ * ```
+ */
+export function retry<T, E>(
+  fn: (attempt: number, signal: AbortSignal) => Awaitable<Result<T, E>>,
+  options: RetryOptions<E | TimeoutError> & { timeout: number }
+): AsyncResult<T, E | TimeoutError>;
+export function retry<T, E>(
+  fn: (attempt: number, signal: AbortSignal) => Awaitable<Result<T, E>>,
+  options?: RetryOptions<E>
+): AsyncResult<T, E>;
+export function retry<T, E>(
+  fn: (attempt: number, signal: AbortSignal) => Awaitable<Result<T, E>>,
+  options: RetryOptions<E> = {}
+): AsyncResult<T, E> {
+  const {
+    attempts = 3,
+    backoff = "exponential",
+    delay = 100,
+    maxDelay = Infinity,
+    timeout,
+    retryIf = () => true,
+    onError,
+  } = options;
+
+  const attempt = (n: number): Awaitable<Result<T, E>> =>
+    timeout === undefined
+      ? fn(n, neverAborted())
+      : // the timeout error is part of E, see the first overload
+        (withTimeout((signal) => fn(n, signal), timeout) as AsyncResult<T, E>);
+
+  const run = async (): Promise<Result<T, E>> => {
+    for (let n = 1; ; n++) {
+      const result = await attempt(n);
+      if (result.isOk) {
+        return result;
+      }
+      onError?.(result.error, n);
+      if (n >= attempts || !retryIf(result.error)) {
+        return result;
+      }
+      await sleep(Math.min(delayFor(backoff, delay, n), maxDelay));
+    }
+  };
+
+  return asyncResult(run());
+}
@@ -0,0 +1,45 @@
+import { describe, expect, expectTypeOf, test } from "vitest";
+import { TagOf, TaggedError, hasTag } from "./taggedError";
+
+describe("TaggedError", () => {
+  class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+  class Timeout extends TaggedError("Timeout") {}
+
+  test("creates error classes with a tag", () => {
+    const error = new NotFound({ id: "42" });
+
+    expect(error).toBeInstanceOf(NotFound);
+    expect(error).toBeInstanceOf(Error);
+    expect(error._tag).toBe("NotFound");
+    expect(error.name).toBe("NotFound");
+    expect(error.message).toBe("NotFound");
+    expect(error.id).toBe("42");
+    expect(error.stack).toContain("NotFound");
+    expectTypeOf(error._tag).toEqualTypeOf<"NotFound">();
+    expectTypeOf<TagOf<NotFound | Timeout>>().toEqualTypeOf<
+      "NotFound" | "Timeout"
+    >();
+  });
+
+  test("fields are optional only if there are none", () => {
+    expect(new Timeout()._tag).toBe("Timeout");
+    // @ts-expect-error the fields are required
+    () => new NotFound();
+  });
+
+  test("message can be passed as a field", () => {
+    class Invalid extends TaggedError("Invalid")<{ message: string }> {}
+
+    expect(new Invalid({ message: "must be positive" }).message).toBe(
+      "must be positive"
+    );
+  });
+
+  test("hasTag", () => {
+    expect(hasTag(new NotFound({ id: "1" }), "NotFound")).toBe(true);
+    expect(hasTag(new Timeout(), "NotFound")).toBe(false);
+    expect(hasTag({ _tag: "NotFound" }, "NotFound")).toBe(true);
+    expect(hasTag("NotFound", "NotFound")).toBe(false);
+    expect(hasTag(null, "NotFound")).toBe(false);
+  });
+});
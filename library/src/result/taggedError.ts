@@ -0,0 +1,87 @@
+/*
+ * Errors discriminated by a `_tag`, so that a union of them can be handled
+ * one member at a time with `catchTag` and exhaustively with `matchError`.
+ */
+
+/**
+ * Anything with a `_tag` discriminant, e.g. the instances of a `TaggedError` class.
+ */
+export interface Tagged<Tag extends string = string> {
+  readonly _tag: Tag;
+}
+
+/**
+ * Extracts the tags of an error union.
+ *
+ * @example
+ * ```ts
+ * type A = TagOf<NotFound | Timeout>; // "NotFound" | "Timeout"
+ * ```
+ */
+export type TagOf<E> = E extends Tagged<infer Tag> ? Tag : never;
+
+/**
+ * Extracts the members of an error union with the given tag.
+ *
+ * @example
+ * ```ts
+ * type A = ErrorWithTag<NotFound | Timeout, "Timeout">; // Timeout
+ * ```
+ */
+export type ErrorWithTag<E, Tag extends string> = E & Tagged<Tag>;
+
+/**
+ * A handler for every tag of an error union, used by `matchError`.
+ */
+export type ErrorHandlers<E, U> = {
+  [Tag in TagOf<E>]: (error: ErrorWithTag<E, Tag>) => U;
+};
+
+/**
+ * The class returned by `TaggedError`. The type argument is the type of the
+ * fields passed to the constructor, which become properties of the error.
+ */
+export interface TaggedErrorConstructor<Tag extends string> {
+  new <Fields extends Record<string, unknown> = {}>(
+    ...args: {} extends Fields ? [fields?: Fields] : [fields: Fields]
+  ): Error & Tagged<Tag> & Readonly<Fields>;
+}
+
+/**
+ * Creates a base class for errors with the given tag. The tag is also the
+ * `name` of the error and its message, unless the fields contain a `message`.
+ *
+ * @example
+ * ```ts
+ * class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+ * class Timeout extends TaggedError("Timeout") {}
+ *
+ * const error = new NotFound({ id: "42" });
+ * expect(error._tag).toBe("NotFound");
+ * expect(error.id).toBe("42");
+ * expect(error).toBeInstanceOf(Error);
+ * ```
+ */
+export const TaggedError = <Tag extends string>(
+  tag: Tag
+): TaggedErrorConstructor<Tag> =>
+  class extends Error {
+    readonly _tag = tag;
+
+    constructor(fields?: Record<string, unknown>) {
+      super(typeof fields?.message === "string" ? fields.message : tag);
+      this.name = tag;
+      Object.assign(this, fields);
+    }
+  } as TaggedErrorConstructor<any>;
+
+/**
+ * Returns `true` if the value is tagged with the tag.
+ */
+export const hasTag = <Tag extends string>(
+  value: unknown,
+  tag: Tag
+): value is Tagged<Tag> =>
+  typeof value === "object" &&
+  value !== null &&
+  (value as Partial<Tagged>)._tag === tag;
@@ -0,0 +1,128 @@
+import { describe, expect, expectTypeOf, test } from "vitest";
+import { Result, err, ok } from "./result";
+import {
+  FieldError,
+  Validation,
+  collectErrors,
+  collectErrorsRecord,
+  invalid,
+  toResult,
+  toValidation,
+  valid,
+  validate,
+  validateEach,
+  validateFields,
+} from "./validation";
+
+const required = (value: string): Validation<string, string> =>
+  value.length > 0 ? valid(value) : invalid("required");
+
+const positive = (value: number): Validation<number, string> =>
+  value > 0 ? valid(value) : invalid("must be positive");
+
+describe("Validation", () => {
+  test("conversions", () => {
+    expect(toValidation(ok(1)).unwrap()).toBe(1);
+    expect(toValidation(err("error")).unwrapErr()).toEqual(["error"]);
+    expect(toResult(valid(1)).unwrap()).toBe(1);
+    expect(toResult(invalid("a", "b")).unwrapErr()).toBe("a");
+  });
+
+  test("validate", () => {
+    const password = (value: string) =>
+      validate(
+        value,
+        (value) => (value.length >= 8 ? ok(value) : err("too short")),
+        (value) => (/\d/.test(value) ? ok(value) : err("no digits"))
+      );
+
+    expectTypeOf(password("")).toEqualTypeOf<Validation<string, string>>();
+    expect(password("secret42").unwrap()).toBe("secret42");
+    expect(password("abc").unwrapErr()).toEqual(["too short", "no digits"]);
+    expect(password("abcdefgh").unwrapErr()).toEqual(["no digits"]);
+  });
+
+  describe("collectErrors", () => {
+    test("gathers every error", () => {
+      const res = collectErrors([required(""), positive(-1), required("a")]);
+      expect(res.unwrapErr()).toEqual(["required", "must be positive"]);
+    });
+
+    test("keeps tuple types", () => {
+      const res = collectErrors([required("John"), positive(42)]);
+
+      expectTypeOf(res).toEqualTypeOf<Validation<[string, number], string>>();
+      expect(res.unwrap()).toEqual(["John", 42]);
+    });
+
+    test("empty", () => {
+      expect(collectErrors([]).unwrap()).toEqual([]);
+    });
+
+    test("records", () => {
+      const res = collectErrorsRecord({ name: required(""), age: positive(0) });
+
+      expectTypeOf(res).toEqualTypeOf<
+        Validation<{ name: string; age: number }, string>
+      >();
+      expect(res.unwrapErr()).toEqual(["required", "must be positive"]);
+      expect(
+        collectErrorsRecord({
+          name: required("John"),
+          age: positive(42),
+        }).unwrap()
+      ).toEqual({ name: "John", age: 42 });
+    });
+  });
+
+  describe("field paths", () => {
+    test("validateFields", () => {
+      const res = validateFields({
+        name: required(""),
+        address: validateFields({ street: required(""), zip: required("1") }),
+      });
+
+      expectTypeOf(res).toEqualTypeOf<
+        Validation<
+          { name: string; address: { street: string; zip: string } },
+          FieldError<string>
+        >
+      >();
+      expect(res.unwrapErr()).toEqual([
+        new FieldError(["name"], "required"),
+        new FieldError(["address", "street"], "required"),
+      ]);
+      expect(res.unwrapErr().map(String)).toEqual([
+        "name: required",
+        "address.street: required",
+      ]);
+    });
+
+    test("validateEach", () => {
+      const res = validateFields({
+        tags: validateEach(["a", "", ""], required),
+      });
+
+      expect(res.unwrapErr().map(String)).toEqual([
+        "tags.1: required",
+        "tags.2: required",
+      ]);
+      expect(validateEach(["a", "b"], required).unwrap()).toEqual(["a", "b"]);
+    });
+
+    test("toString", () => {
+      expect(String(new FieldError(["zip"], "invalid"))).toBe("zip: invalid");
+      expect(String(new FieldError(["age"], { min: 18 }))).toBe(
+        "age: { min: 18 }"
+      );
+      expect(String(new FieldError([0], new RangeError("too low")))).toBe(
+        "0: RangeError: too low"
+      );
+    });
+  });
+
+  test("is a Result", () => {
+    const res: Result<number, string[]> = positive(1).map((x) => x + 1);
+    expect(res.unwrap()).toBe(2);
+  });
+});
@@ -0,0 +1,254 @@
+import { display } from "../format";
+import { InferErr, InferOk, Result, err, ok } from "./result";
+
+/*
+ * A validation is a plain `Result` whose error is a non-empty list of errors,
+ * so every Result method and function works on it. The combinators in this
+ * module, unlike `andThen`, `all` or `Do`, don't stop at the first `Err`,
+ * they run every validation and gather all of the errors.
+ */
+
+/**
+ * An array with at least one element.
+ */
+export type NonEmptyArray<T> = [T, ...T[]];
+
+/**
+ * A result that holds every error instead of only the first one.
+ */
+export type Validation<T, E> = Result<T, NonEmptyArray<E>>;
+
+/**
+ * A segment of the path of a field, a key of an object or an index of an array.
+ */
+export type PathSegment = string | number;
+
+/**
+ * An error of a field, with the path that leads to the field.
+ *
+ * @example
+ * ```ts
+ * const error = new FieldError(["address", "zip"], "required");
+ * expect(error.toString()).toBe("address.zip: required");
+ * ```
+ */
+export class FieldError<E> {
+  constructor(readonly path: PathSegment[], readonly error: E) {}
+
+  toString(): string {
+    // strings are written as they are, without the quotes of `display`
+    const error =
+      typeof this.error === "string" ? this.error : display(this.error);
+    return `${this.path.join(".")}: ${error}`;
+  }
+}
+
+type Unnest<E> = E extends FieldError<infer F> ? F : E;
+
+type InferInvalid<V> = InferErr<V> extends NonEmptyArray<infer E> ? E : never;
+
+// the error of `validateFields` for a field validated by `V`
+type FieldErrorOf<V> = FieldError<Unnest<InferInvalid<V>>>;
+
+const prefix = (segment: PathSegment, error: unknown): FieldError<unknown> =>
+  error instanceof FieldError
+    ? new FieldError([segment, ...error.path], error.error)
+    : new FieldError([segment], error);
+
+/**
+ * Creates a valid validation.
+ *
+ * @example
+ * ```ts
+ * expect(valid(42).unwrap()).toBe(42);
+ * ```
+ */
+export const valid = <T, E = never>(value: T): Validation<T, E> => ok(value);
+
+/**
+ * Creates an invalid validation with one or more errors.
+ *
+ * @example
+ * ```ts
+ * expect(invalid("too short", "no digits").unwrapErr()).toEqual(["too short", "no digits"]);
+ * ```
+ */
+export const invalid = <E, T = never>(
+  error: E,
+  ...errors: E[]
+): Validation<T, E> => err([error, ...errors]);
+
+/**
+ * Converts a result into a validation with a single error.
+ *
+ * @example
+ * ```ts
+ * expect(toValidation(err("error")).unwrapErr()).toEqual(["error"]);
+ * ```
+ */
+export const toValidation = <T, E>(result: Result<T, E>): Validation<T, E> =>
+  result.isOk ? ok(result.value) : err([result.error]);
+
+/**
+ * Converts a validation back into a fail-fast result that keeps only the first error.
+ *
+ * @example
+ * ```ts
+ * expect(toResult(invalid("a", "b")).unwrapErr()).toBe("a");
+ * ```
+ */
+export const toResult = <T, E>(validation: Validation<T, E>): Result<T, E> =>
+  validation.isOk ? ok(validation.value) : err(validation.error[0]);
+
+/**
+ * Runs every check on the value and gathers the errors of all failing checks.
+ *
+ * @example
+ * ```ts
+ * const password = validate(
+ *   "abc",
+ *   (value) => (value.length >= 8 ? ok(value) : err("too short")),
+ *   (value) => (/\d/.test(value) ? ok(value) : err("no digits"))
+ * );
+ * expect(password.unwrapErr()).toEqual(["too short", "no digits"]);
+ * ```
+ */
+export const validate = <T, E>(
+  value: T,
+  ...checks: ((value: T) => Result<unknown, E>)[]
+): Validation<T, E> => {
+  const errors: E[] = [];
+  for (const check of checks) {
+    const result = check(value);
+    if (result.isErr) {
+      errors.push(result.error);
+    }
+  }
+  return errors.length > 0 ? err(errors as NonEmptyArray<E>) : ok(value);
+};
+
+/**
+ * Turns a collection of validations into a validation of the collection of their values.
+ * Unlike `all`, it doesn't stop at the first `Err` and returns the errors of every
+ * invalid validation. Tuples keep their types.
+ *
+ * @example
+ * ```ts
+ * const res = collectErrors([validateName(name), validateAge(age)]);
+ * // res: Validation<[string, number], string>
+ * ```
+ */
+export function collectErrors<V extends readonly Validation<any, any>[] | []>(
+  validations: V
+): Validation<
+  { -readonly [K in keyof V]: InferOk<V[K]> },
+  InferInvalid<V[number]>
+>;
+export function collectErrors<T, E>(
+  validations: Iterable<Validation<T, E>>
+): Validation<T[], E>;
+export function collectErrors(
+  validations: Iterable<Validation<any, any>>
+): Validation<any[], any> {
+  const values: any[] = [];
+  const errors: any[] = [];
+  for (const validation of validations) {
+    if (validation.isOk) {
+      values.push(validation.value);
+    } else {
+      errors.push(...validation.error);
+    }
+  }
+  return errors.length > 0 ? err(errors as NonEmptyArray<any>) : ok(values);
+}
+
+/**
+ * Turns a record of validations into a validation of a record of their values,
+ * gathering the errors of every invalid field.
+ *
+ * @example
+ * ```ts
+ * const res = collectErrorsRecord({ name: validateName(name), age: validateAge(age) });
+ * // res: Validation<{ name: string; age: number }, string>
+ * ```
+ */
+export const collectErrorsRecord = <
+  R extends Record<string, Validation<any, any>>
+>(
+  validations: R
+): Validation<{ [K in keyof R]: InferOk<R[K]> }, InferInvalid<R[keyof R]>> => {
+  const values: Record<string, unknown> = {};
+  const errors: any[] = [];
+  for (const key of Object.keys(validations)) {
+    const validation = validations[key];
+    if (validation.isOk) {
+      values[key] = validation.value;
+    } else {
+      errors.push(...validation.error);
+    }
+  }
+  return errors.length > 0
+    ? err(errors as NonEmptyArray<any>)
+    : ok(values as { [K in keyof R]: InferOk<R[K]> });
+};
+
+/**
+ * Like `collectErrorsRecord`, but wraps every error into a `FieldError` with the key of its field.
+ * Errors that already are `FieldError`s, e.g. from nested `validateFields`, get the key prepended to their path.
+ *
+ * @example
+ * ```ts
+ * const res = validateFields({
+ *   name: validateName(""),
+ *   address: validateFields({ zip: validateZip("abc") }),
+ * });
+ * expect(res.unwrapErr().map(String)).toEqual(["name: required", "address.zip: invalid"]);
+ * ```
+ */
+export const validateFields = <R extends Record<string, Validation<any, any>>>(
+  validations: R
+): Validation<{ [K in keyof R]: InferOk<R[K]> }, FieldErrorOf<R[keyof R]>> => {
+  const fields = {} as {
+    [K in keyof R]: Validation<InferOk<R[K]>, FieldErrorOf<R[keyof R]>>;
+  };
+  for (const key of Object.keys(validations) as (keyof R & string)[]) {
+    fields[key] = validations[key].mapErr(
+      (errors) =>
+        errors.map((error) => prefix(key, error)) as NonEmptyArray<any>
+    );
+  }
+  // `collectErrorsRecord` infers the types back from `fields`, which
+  // typescript can't simplify while `R` is generic
+  return collectErrorsRecord(fields) as Validation<
+    { [K in keyof R]: InferOk<R[K]> },
+    FieldErrorOf<R[keyof R]>
+  >;
+};
+
+/**
+ * Validates every item of a collection with `f` and gathers the errors,
+ * wrapped into `FieldError`s with the index of their item.
+ *
+ * @example
+ * ```ts
+ * const res = validateEach(["a@b.c", "oops"], validateEmail);
+ * expect(res.unwrapErr().map(String)).toEqual(["1: invalid email"]);
+ * ```
+ */
+export const validateEach = <A, T, E>(
+  items: Iterable<A>,
+  f: (item: A, index: number) => Validation<T, E>
+): Validation<T[], FieldError<Unnest<E>>> => {
+  const validations: Validation<T, FieldError<Unnest<E>>>[] = [];
+  let index = 0;
+  for (const item of items) {
+    const segment = index;
+    validations.push(
+      f(item, index++).mapErr(
+        (errors) =>
+          errors.map((error) => prefix(segment, error)) as NonEmptyArray<any>
+      )
+    );
+  }
+  return collectErrors(validations);
+};
@@ -0,0 +1,34 @@
+import { hasBrand, shortCircuitBrand } from "./brand";
+import { display } from "./format";
+
+/**
+ * Thrown by `bind` when it's called on `none` or on an `Err`.
+ * Only `Do` and `DoAsync` catch it (the Option ones the `"none"` variant,
+ * the Result ones the `"err"` variant), so any other exception thrown
+ * inside of a do block propagates to the caller. It's an `Error`, so that
+ * a `bind` outside of a matching do block, e.g. an Option `bind` inside of
+ * a Result `Do`, fails with a message and a stack.
+ */
+export class ShortCircuit extends Error {
+  readonly name = "ShortCircuit";
+
+  constructor(readonly variant: "none" | "err", readonly error?: unknown) {
+    super(
+      variant === "none"
+        ? "called `Option.bind()` on `None` outside of an Option do block"
+        : `called \`Result.bind()\` on an \`Err\` outside of a Result do block: ${display(
+            error
+          )}`
+    );
+  }
+
+  get [shortCircuitBrand](): true {
+    return true;
+  }
+}
+
+export const isShortCircuit = (
+  e: unknown,
+  variant: ShortCircuit["variant"]
+): e is ShortCircuit =>
+  hasBrand(e, shortCircuitBrand) && (e as ShortCircuit).variant === variant;
@@ -0,0 +1,67 @@
+import type { NonEmptyArray } from "./result/validation";
+
+/*
+ * The Standard Schema interface (https://standardschema.dev), copied here as
+ * recommended by the spec so that zod, valibot, arktype and other libraries
+ * implementing it work without depending on any of them.
+ */
+
+/**
+ * A schema that implements the Standard Schema interface.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardResult<Output> | Promise<StandardResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+type StandardResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardIssue> };
+
+interface StandardIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/**
+ * Extracts the output type of a Standard Schema.
+ */
+export type InferSchemaOutput<S extends StandardSchemaV1> = NonNullable<
+  S["~standard"]["types"]
+>["output"];
+
+/**
+ * An issue reported by a schema, with the path of the invalid value.
+ */
+export interface SchemaIssue {
+  readonly message: string;
+  readonly path: PropertyKey[];
+}
+
+/**
+ * All the issues reported by a schema for an invalid value.
+ */
+export type SchemaIssues = NonEmptyArray<SchemaIssue>;
+
+export const toSchemaIssues = (
+  issues: ReadonlyArray<StandardIssue>
+): SchemaIssues => {
+  const converted = issues.map(
+    (issue): SchemaIssue => ({
+      message: issue.message,
+      path: (issue.path ?? []).map((segment) =>
+        typeof segment === "object" ? segment.key : segment
+      ),
+    })
+  );
+  // a schema that fails without reporting any issue still needs one
+  return converted.length > 0
+    ? (converted as SchemaIssues)
+    : [{ message: "Invalid value", path: [] }];
+};
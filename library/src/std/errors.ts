@@ -0,0 +1,89 @@
+/*
+ * Errors returned by the adapters of the std module. Every adapter has its own
+ * error class, so they can be told apart with `instanceof` or by their `name`.
+ * `cause` holds the exception thrown by the built-in API, if there was one.
+ */
+
+/**
+ * The text passed to `parseJson` is not valid JSON.
+ */
+export class JsonParseError extends Error {
+  readonly name = "JsonParseError";
+
+  constructor(readonly input: string, readonly cause: unknown) {
+    super(cause instanceof Error ? cause.message : `Invalid JSON: ${input}`);
+  }
+}
+
+/**
+ * The value passed to `parseNumber`, `parseInt` or `parseFloat` is not a number.
+ */
+export class NumberParseError extends Error {
+  readonly name = "NumberParseError";
+
+  constructor(readonly input: string) {
+    super(`Invalid number: "${input}"`);
+  }
+}
+
+/**
+ * The value passed to `parseUrl` is not a valid URL.
+ */
+export class UrlParseError extends Error {
+  readonly name = "UrlParseError";
+
+  constructor(
+    readonly input: string,
+    readonly base: string | URL | undefined,
+    readonly cause: unknown
+  ) {
+    super(`Invalid URL: "${input}"`);
+  }
+}
+
+/**
+ * The value passed to `parseDate` results in an Invalid Date.
+ */
+export class InvalidDateError extends Error {
+  readonly name = "InvalidDateError";
+
+  constructor(readonly input: string | number | Date) {
+    super(`Invalid date: "${String(input)}"`);
+  }
+}
+
+/**
+ * The text passed to `decodeBase64` is not valid base64, or the text passed
+ * to `encodeBase64` contains characters outside of Latin1.
+ */
+export class Base64Error extends Error {
+  readonly name = "Base64Error";
+
+  constructor(readonly input: string, readonly cause: unknown) {
+    super(cause instanceof Error ? cause.message : `Invalid base64: ${input}`);
+  }
+}
+
+/**
+ * The bytes passed to `decodeText` are not valid in the given encoding,
+ * or the encoding is not supported.
+ */
+export class TextDecodeError extends Error {
+  readonly name = "TextDecodeError";
+
+  constructor(readonly encoding: string, readonly cause: unknown) {
+    super(cause instanceof Error ? cause.message : `Invalid ${encoding} input`);
+  }
+}
+
+/**
+ * The value passed to `clone` can't be cloned with `structuredClone`,
+ * e.g. because it contains functions.
+ */
+export class CloneError extends Error {
+  readonly name = "CloneError";
+
+  constructor(readonly cause: unknown) {
+    super(cause instanceof Error ? cause.message : "Value can't be cloned");
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./std";
+export * from "./errors";
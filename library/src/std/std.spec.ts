@@ -0,0 +1,104 @@
+import { describe, expect, expectTypeOf, test } from "vitest";
+import { Result } from "../result/result";
+import {
+  Base64Error,
+  CloneError,
+  InvalidDateError,
+  JsonParseError,
+  NumberParseError,
+  TextDecodeError,
+  UrlParseError,
+} from "./errors";
+import {
+  clone,
+  decodeBase64,
+  decodeText,
+  encodeBase64,
+  parseDate,
+  parseFloat,
+  parseInt,
+  parseJson,
+  parseNumber,
+  parseUrl,
+} from "./std";
+
+describe("std", () => {
+  test("parseJson", () => {
+    const res = parseJson<{ a: number }>('{"a":1}');
+
+    expectTypeOf(res).toEqualTypeOf<Result<{ a: number }, JsonParseError>>();
+    expect(res.unwrap()).toEqual({ a: 1 });
+    expect(parseJson("[1]", (_, value) => value).unwrap()).toEqual([1]);
+
+    const error = parseJson("{").unwrapErr();
+    expect(error).toBeInstanceOf(JsonParseError);
+    expect(error.name).toBe("JsonParseError");
+    expect(error.input).toBe("{");
+    expect(error.cause).toBeInstanceOf(SyntaxError);
+  });
+
+  test("parseNumber", () => {
+    expect(parseNumber("1e3").unwrap()).toBe(1000);
+    expect(parseNumber(" 42 ").unwrap()).toBe(42);
+    expect(parseNumber("12px").unwrapErr()).toBeInstanceOf(NumberParseError);
+    expect(parseNumber("").isErr).toBe(true);
+    expect(parseNumber("  ").isErr).toBe(true);
+    expect(parseNumber("NaN").isErr).toBe(true);
+  });
+
+  test("parseInt and parseFloat", () => {
+    expect(parseInt("42").unwrap()).toBe(42);
+    expect(parseInt("12px").unwrap()).toBe(12);
+    expect(parseInt("ff", 16).unwrap()).toBe(255);
+    expect(parseInt("abc").unwrapErr().message).toBe('Invalid number: "abc"');
+    expect(parseFloat("3.14").unwrap()).toBe(3.14);
+    expect(parseFloat("abc").unwrapErr()).toBeInstanceOf(NumberParseError);
+  });
+
+  test("parseUrl", () => {
+    expect(parseUrl("https://example.com/a?b=1").unwrap().pathname).toBe("/a");
+    expect(parseUrl("/path", "https://example.com").unwrap().href).toBe(
+      "https://example.com/path"
+    );
+
+    const error = parseUrl("not a url").unwrapErr();
+    expect(error).toBeInstanceOf(UrlParseError);
+    expect(error.input).toBe("not a url");
+    expect(error.cause).toBeInstanceOf(TypeError);
+  });
+
+  test("parseDate", () => {
+    expect(parseDate("2023-06-01T00:00:00Z").unwrap().getTime()).toBe(
+      1685577600000
+    );
+    expect(parseDate(0).unwrap().getTime()).toBe(0);
+    expect(parseDate("yesterday").unwrapErr()).toBeInstanceOf(InvalidDateError);
+    expect(parseDate(NaN).isErr).toBe(true);
+  });
+
+  test("base64", () => {
+    expect(encodeBase64("hello").unwrap()).toBe("aGVsbG8=");
+    expect(decodeBase64("aGVsbG8=").unwrap()).toBe("hello");
+    expect(decodeBase64("%").unwrapErr()).toBeInstanceOf(Base64Error);
+    expect(encodeBase64("✓").unwrapErr()).toBeInstanceOf(Base64Error);
+  });
+
+  test("decodeText", () => {
+    expect(decodeText(new Uint8Array([104, 105])).unwrap()).toBe("hi");
+    expect(decodeText(new Uint8Array([0xff])).unwrapErr()).toBeInstanceOf(
+      TextDecodeError
+    );
+    expect(decodeText(new Uint8Array([104]), "no-such-encoding").isErr).toBe(
+      true
+    );
+  });
+
+  test("clone", () => {
+    const value = { a: [1], date: new Date(0) };
+    const cloned = clone(value).unwrap();
+
+    expect(cloned).toEqual(value);
+    expect(cloned.a).not.toBe(value.a);
+    expect(clone({ f: () => {} }).unwrapErr()).toBeInstanceOf(CloneError);
+  });
+});
@@ -0,0 +1,194 @@
+import { Result, err, ok } from "../result/result";
+import {
+  Base64Error,
+  CloneError,
+  InvalidDateError,
+  JsonParseError,
+  NumberParseError,
+  TextDecodeError,
+  UrlParseError,
+} from "./errors";
+
+/*
+ * Result returning versions of built-in APIs that throw or return
+ * sentinel values such as `NaN` or an Invalid Date.
+ */
+
+/**
+ * Safe version of `JSON.parse`. The type parameter is not checked at runtime.
+ *
+ * @example
+ * ```ts
+ * expect(parseJson<{ a: number }>('{"a":1}').unwrap()).toEqual({ a: 1 });
+ * expect(parseJson("{").unwrapErr()).toBeInstanceOf(JsonParseError);
+ * ```
+ */
+export const parseJson = <T = unknown>(
+  text: string,
+  reviver?: (key: string, value: any) => any
+): Result<T, JsonParseError> => {
+  try {
+    return ok(JSON.parse(text, reviver));
+  } catch (e) {
+    return err(new JsonParseError(text, e));
+  }
+};
+
+/**
+ * Safe version of `Number`. Rejects `NaN` and blank strings, which `Number` turns into `0`.
+ *
+ * @example
+ * ```ts
+ * expect(parseNumber("1e3").unwrap()).toBe(1000);
+ * expect(parseNumber("12px").isErr).toBe(true);
+ * expect(parseNumber("").isErr).toBe(true);
+ * ```
+ */
+export const parseNumber = (
+  value: string
+): Result<number, NumberParseError> => {
+  const parsed = value.trim() === "" ? NaN : Number(value);
+  return isNaN(parsed) ? err(new NumberParseError(value)) : ok(parsed);
+};
+
+/**
+ * Safe version of `parseInt`. Rejects `NaN`.
+ *
+ * @example
+ * ```ts
+ * expect(parseInt("42").unwrap()).toBe(42);
+ * expect(parseInt("ff", 16).unwrap()).toBe(255);
+ * expect(parseInt("abc").isErr).toBe(true);
+ * ```
+ */
+export const parseInt = (
+  value: string,
+  radix?: number
+): Result<number, NumberParseError> => {
+  const parsed = Number.parseInt(value, radix);
+  return isNaN(parsed) ? err(new NumberParseError(value)) : ok(parsed);
+};
+
+/**
+ * Safe version of `parseFloat`. Rejects `NaN`.
+ *
+ * @example
+ * ```ts
+ * expect(parseFloat("3.14").unwrap()).toBe(3.14);
+ * expect(parseFloat("abc").isErr).toBe(true);
+ * ```
+ */
+export const parseFloat = (value: string): Result<number, NumberParseError> => {
+  const parsed = Number.parseFloat(value);
+  return isNaN(parsed) ? err(new NumberParseError(value)) : ok(parsed);
+};
+
+/**
+ * Safe version of `new URL`.
+ *
+ * @example
+ * ```ts
+ * expect(parseUrl("/path", "https://example.com").unwrap().href).toBe("https://example.com/path");
+ * expect(parseUrl("not a url").isErr).toBe(true);
+ * ```
+ */
+export const parseUrl = (
+  url: string,
+  base?: string | URL
+): Result<URL, UrlParseError> => {
+  try {
+    return ok(new URL(url, base));
+  } catch (e) {
+    return err(new UrlParseError(url, base, e));
+  }
+};
+
+/**
+ * Safe version of `new Date`. Rejects an Invalid Date.
+ *
+ * @example
+ * ```ts
+ * expect(parseDate("2023-06-01").unwrap().getTime()).toBe(1685577600000);
+ * expect(parseDate("yesterday").isErr).toBe(true);
+ * ```
+ */
+export const parseDate = (
+  value: string | number | Date
+): Result<Date, InvalidDateError> => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? err(new InvalidDateError(value)) : ok(date);
+};
+
+/**
+ * Safe version of `atob`.
+ *
+ * @example
+ * ```ts
+ * expect(decodeBase64("aGVsbG8=").unwrap()).toBe("hello");
+ * expect(decodeBase64("%").isErr).toBe(true);
+ * ```
+ */
+export const decodeBase64 = (text: string): Result<string, Base64Error> => {
+  try {
+    return ok(atob(text));
+  } catch (e) {
+    return err(new Base64Error(text, e));
+  }
+};
+
+/**
+ * Safe version of `btoa`.
+ *
+ * @example
+ * ```ts
+ * expect(encodeBase64("hello").unwrap()).toBe("aGVsbG8=");
+ * expect(encodeBase64("✓").isErr).toBe(true);
+ * ```
+ */
+export const encodeBase64 = (text: string): Result<string, Base64Error> => {
+  try {
+    return ok(btoa(text));
+  } catch (e) {
+    return err(new Base64Error(text, e));
+  }
+};
+
+/**
+ * Safe version of `TextDecoder.decode`. Invalid input is rejected
+ * instead of being replaced with U+FFFD.
+ *
+ * @example
+ * ```ts
+ * expect(decodeText(new Uint8Array([104, 105])).unwrap()).toBe("hi");
+ * expect(decodeText(new Uint8Array([0xff])).isErr).toBe(true);
+ * ```
+ */
+export const decodeText = (
+  input: BufferSource,
+  encoding = "utf-8"
+): Result<string, TextDecodeError> => {
+  try {
+    // the encoding is checked by the constructor, which throws a RangeError
+    const decoder = new TextDecoder(encoding as any, { fatal: true });
+    return ok(decoder.decode(input));
+  } catch (e) {
+    return err(new TextDecodeError(encoding, e));
+  }
+};
+
+/**
+ * Safe version of `structuredClone`.
+ *
+ * @example
+ * ```ts
+ * expect(clone({ a: [1] }).unwrap()).toEqual({ a: [1] });
+ * expect(clone({ f: () => {} }).isErr).toBe(true);
+ * ```
+ */
+export const clone = <T>(value: T): Result<T, CloneError> => {
+  try {
+    return ok(structuredClone(value));
+  } catch (e) {
+    return err(new CloneError(e));
+  }
+};
@@ -0,0 +1,50 @@
+import { createRequire } from "node:module";
+import { join } from "node:path";
+import { describe, expect, test } from "vitest";
+
+// Checks the CommonJS build in `dist`, run with `test:build` after `build`.
+// Every entry point bundles its own copy of the classes, so values created
+// through one entry are checked by another here.
+const require = createRequire(join(__dirname, "../../dist/index.js"));
+const main = require("./index.js") as typeof import("../index");
+const option = require("./option/index.js") as typeof import("../option");
+const result = require("./result/index.js") as typeof import("../result");
+const testing = require("./testing/index.js") as typeof import(".");
+
+describe("CommonJS build", () => {
+  test("matchers recognize values of the other entries", () => {
+    // the part of the matcher context used by the matchers
+    const context = {
+      isNot: false,
+      equals: Object.is,
+      utils: {
+        matcherHint: () => "",
+        printExpected: String,
+        printReceived: String,
+        diff: () => null,
+      },
+    };
+    const { matchers } = testing;
+
+    expect(matchers.toBeOk.call(context, main.Result.ok(1)).pass).toBe(true);
+    expect(matchers.toBeOkWith.call(context, result.ok(1), 1).pass).toBe(true);
+    expect(matchers.toBeErr.call(context, result.err("e")).pass).toBe(true);
+    expect(matchers.toBeSomeWith.call(context, option.some(1), 1).pass).toBe(
+      true
+    );
+    expect(matchers.toBeNone.call(context, option.none).pass).toBe(true);
+    expect(matchers.toBeOk.call(context, option.some(1)).pass).toBe(false);
+  });
+
+  test("guards and equality across entries", () => {
+    expect(result.isResult(option.some(1).okOr("missing"))).toBe(true);
+    expect(main.Result.isResult(result.ok(1))).toBe(true);
+    expect(main.Option.isSome(option.some(1))).toBe(true);
+    expect(
+      result.equals(
+        main.Result.ok(option.some({ a: 1 })),
+        result.ok(main.Option.some({ a: 1 }))
+      )
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,2 @@
+export { matchers } from "./matchers";
+export type { OptionResultMatchers } from "./matchers";
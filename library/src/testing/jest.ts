@@ -0,0 +1,21 @@
+import { OptionResultMatchers, matchers } from "./matchers";
+
+/*
+ * Registers the matchers with jest's global `expect`, add it to `setupFilesAfterEnv`:
+ *
+ * ```json
+ * { "setupFilesAfterEnv": ["this-is-ok/testing/jest"] }
+ * ```
+ */
+
+declare global {
+  namespace jest {
+    // the type parameters must be the same as in @types/jest
+    interface Matchers<R, T = {}> extends OptionResultMatchers<R> {}
+    interface Expect extends OptionResultMatchers<any> {}
+  }
+}
+
+declare const expect: { extend: (matchers: object) => void };
+
+expect.extend(matchers);
@@ -0,0 +1,68 @@
+import { describe, expect, test } from "vitest";
+import { none, some } from "../option/option";
+import { err, ok } from "../result/result";
+import { TaggedError } from "../result/taggedError";
+
+// the message of a failed assertion, without colors
+const failure = (assertion: () => void): string => {
+  try {
+    assertion();
+  } catch (e) {
+    return (e as Error).message.replace(/\u001b\[\d+m/g, "");
+  }
+  throw new Error("the assertion passed");
+};
+
+describe("matchers", () => {
+  class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+
+  test("results", () => {
+    expect(ok(42)).toBeOk();
+    expect(ok(42)).toBeOkWith(42);
+    expect(ok({ a: [1] })).toBeOkWith({ a: [1] });
+    expect(ok("abc")).toBeOkWith(expect.stringContaining("b"));
+    expect(err("error")).toBeErr();
+    expect(err(new NotFound({ id: "1" }))).toBeErrWith(expect.any(NotFound));
+    expect(err("error")).not.toBeOk();
+    expect(ok(1)).not.toBeOkWith(2);
+    expect(42).not.toBeOk();
+    expect({ isOk: true, value: 1 }).not.toBeOk();
+  });
+
+  test("options", () => {
+    expect(some(42)).toBeSome();
+    expect(some(42)).toBeSomeWith(42);
+    expect(none).toBeNone();
+    expect(none).not.toBeSome();
+    expect(some(undefined)).not.toBeNone();
+    expect(undefined).not.toBeNone();
+  });
+
+  test("nested", () => {
+    expect(ok(some(1))).toBeOkWith(some(1));
+    expect(ok(some(1))).not.toBeOkWith(some(2));
+    expect({ user: ok(1) }).toEqual({ user: expect.toBeOk() });
+  });
+
+  test("failure messages", () => {
+    expect(failure(() => expect(ok(1)).toBeErr())).toContain(
+      "Expected: an Err\nReceived: Ok(1)"
+    );
+    expect(failure(() => expect(some("a")).not.toBeSome())).toContain(
+      'Expected: not a Some\nReceived: Some("a")'
+    );
+    expect(
+      failure(() => expect(err(new NotFound({ id: "1" }))).toBeOkWith(1))
+    ).toContain("Expected: Ok(1)\nReceived: Err(NotFound)");
+
+    const diff = failure(() =>
+      expect(ok({ name: "John", age: 32 })).toBeOkWith({
+        name: "John",
+        age: 33,
+      })
+    );
+    expect(diff).toContain("Ok values differ");
+    expect(diff).toContain("-   age: 33,");
+    expect(diff).toContain("+   age: 32,");
+  });
+});
@@ -0,0 +1,167 @@
+import { display } from "../format";
+import { isNone, isSome } from "../option/option";
+import { isErr, isOk } from "../result/result";
+
+/*
+ * Assertions on options and results for `expect.extend`, working with both
+ * vitest and jest. They only rely on the context every matcher gets, so
+ * this module doesn't import either of them.
+ */
+
+/**
+ * The matchers added to `expect`.
+ *
+ * @example
+ * ```ts
+ * expect(parse("42")).toBeOkWith(42);
+ * expect(find("missing")).toBeErrWith(expect.any(NotFound));
+ * expect(head([])).toBeNone();
+ * ```
+ */
+export interface OptionResultMatchers<R = unknown> {
+  /**
+   * Passes if the value is a result of the `Ok` variant.
+   */
+  toBeOk(): R;
+
+  /**
+   * Passes if the value is an `Ok` whose value equals `value`,
+   * which can be an asymmetric matcher.
+   */
+  toBeOkWith(value: unknown): R;
+
+  /**
+   * Passes if the value is a result of the `Err` variant.
+   */
+  toBeErr(): R;
+
+  /**
+   * Passes if the value is an `Err` whose error equals `error`,
+   * which can be an asymmetric matcher like `expect.any(NotFound)`.
+   */
+  toBeErrWith(error: unknown): R;
+
+  /**
+   * Passes if the value is an option of the `Some` variant.
+   */
+  toBeSome(): R;
+
+  /**
+   * Passes if the value is a `Some` whose value equals `value`,
+   * which can be an asymmetric matcher.
+   */
+  toBeSomeWith(value: unknown): R;
+
+  /**
+   * Passes if the value is `None`.
+   */
+  toBeNone(): R;
+}
+
+// the part of the context of vitest and jest matchers used here
+type MatcherContext = {
+  isNot: boolean;
+  equals: (a: unknown, b: unknown) => boolean;
+  utils: {
+    matcherHint: (
+      matcherName: string,
+      received?: string,
+      expected?: string,
+      options?: { isNot?: boolean }
+    ) => string;
+    printExpected: (value: unknown) => string;
+    printReceived: (value: unknown) => string;
+    diff: (a: unknown, b: unknown) => string | null;
+  };
+};
+
+type MatcherResult = { pass: boolean; message: () => string };
+
+const variant = (
+  name: string,
+  expected: string,
+  is: (value: unknown) => boolean
+) =>
+  function (this: MatcherContext, received: unknown): MatcherResult {
+    return {
+      pass: is(received),
+      message: () =>
+        `${this.utils.matcherHint(name, undefined, "", {
+          isNot: this.isNot,
+        })}\n\n` +
+        `Expected: ${this.isNot ? "not " : ""}${expected}\n` +
+        `Received: ${display(received)}`,
+    };
+  };
+
+const variantWith = (
+  name: string,
+  tag: string,
+  inner: (
+    value: unknown
+  ) => { matches: false } | { matches: true; value: unknown }
+) =>
+  function (
+    this: MatcherContext,
+    received: unknown,
+    expected: unknown
+  ): MatcherResult {
+    const found = inner(received);
+    return {
+      pass: found.matches && this.equals(found.value, expected),
+      message: () => {
+        const hint = `${this.utils.matcherHint(name, undefined, undefined, {
+          isNot: this.isNot,
+        })}\n\n`;
+        const expectedVariant = `${tag}(${this.utils.printExpected(expected)})`;
+        if (this.isNot || !found.matches) {
+          return (
+            hint +
+            `Expected: ${this.isNot ? "not " : ""}${expectedVariant}\n` +
+            `Received: ${display(received)}`
+          );
+        }
+        return (
+          hint +
+          `${tag} values differ\n\n` +
+          (this.utils.diff(expected, found.value) ??
+            `Expected: ${this.utils.printExpected(expected)}\n` +
+              `Received: ${this.utils.printReceived(found.value)}`)
+        );
+      },
+    };
+  };
+
+/**
+ * The implementations of `OptionResultMatchers`, pass them to `expect.extend`.
+ * The `this-is-ok/testing/vitest` and `this-is-ok/testing/jest` entry points do it for you.
+ *
+ * @example
+ * ```ts
+ * import { expect } from "vitest";
+ * import { matchers } from "this-is-ok/testing";
+ *
+ * expect.extend(matchers);
+ * ```
+ */
+export const matchers = {
+  toBeOk: variant("toBeOk", "an Ok", isOk),
+  toBeOkWith: variantWith("toBeOkWith", "Ok", (received) =>
+    isOk(received)
+      ? { matches: true, value: received.value }
+      : { matches: false }
+  ),
+  toBeErr: variant("toBeErr", "an Err", isErr),
+  toBeErrWith: variantWith("toBeErrWith", "Err", (received) =>
+    isErr(received)
+      ? { matches: true, value: received.error }
+      : { matches: false }
+  ),
+  toBeSome: variant("toBeSome", "a Some", isSome),
+  toBeSomeWith: variantWith("toBeSomeWith", "Some", (received) =>
+    isSome(received)
+      ? { matches: true, value: received.value }
+      : { matches: false }
+  ),
+  toBeNone: variant("toBeNone", "None", isNone),
+};
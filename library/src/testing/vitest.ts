@@ -0,0 +1,19 @@
+import { expect } from "vitest";
+import { OptionResultMatchers, matchers } from "./matchers";
+
+/*
+ * Registers the matchers with vitest, add it to `setupFiles`:
+ *
+ * ```ts
+ * export default defineConfig({
+ *   test: { setupFiles: ["this-is-ok/testing/vitest"] },
+ * });
+ * ```
+ */
+
+declare module "vitest" {
+  interface Assertion<T = any> extends OptionResultMatchers<void> {}
+  interface AsymmetricMatchersContaining extends OptionResultMatchers<void> {}
+}
+
+expect.extend(matchers);
@@ -2,6 +2,7 @@ import { defineConfig } from "vitest/config";
 
 export default defineConfig({
   test: {
+    setupFiles: ["./src/testing/vitest.ts"],
     coverage: {
       provider: "istanbul",
       reporter: ["text", "json-summary"],
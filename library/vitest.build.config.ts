@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config";
+
+// checks of the built `dist`, see the `test:build` script
+export default defineConfig({
+  test: {
+    include: ["src/**/*.smoke.ts"],
+  },
+});